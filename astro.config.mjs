@@ -6,4 +6,9 @@ export default defineConfig({
   adapter: vercel({ mode: 'serverless' }),
   output: 'server',
   site: 'https://www.mylightartgallery.com',
+  // Anciens permaliens WordPress / WooCommerce : la page d'œuvre redirige ensuite vers le slug canonique.
+  redirects: {
+    '/producto/[slug]': '/obras/[slug]',
+    '/product/[slug]': '/obras/[slug]',
+  },
 });
@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+// Exporte le catalogue WooCommerce, déjà mappé, vers l'instantané servi quand l'API ne répond pas.
+//
+//   npm run catalog-snapshot
+//   npm run catalog-snapshot -- --out src/data/catalog-snapshot.json
+//
+// Lit WP_API_BASE, WP_USERNAME et WP_APP_PASSWORD depuis l'environnement ou le fichier .env.
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { createServer, loadEnv } from 'vite';
+
+const DEFAULT_OUT = 'src/data/catalog-snapshot.json';
+
+const outIndex = process.argv.indexOf('--out');
+const outPath = resolve(outIndex > -1 ? process.argv[outIndex + 1] : DEFAULT_OUT);
+
+for (const [key, value] of Object.entries(loadEnv('production', process.cwd(), ''))) {
+  process.env[key] ??= value;
+}
+
+// Vite charge les modules TypeScript du site : le mappage est exactement celui des pages.
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const { loadCatalogForSnapshot } = await server.ssrLoadModule('/src/lib/wp.ts');
+  const { createCatalogSnapshot } = await server.ssrLoadModule('/src/lib/catalogSnapshot.ts');
+  const products = await loadCatalogForSnapshot();
+  if (products.length === 0) {
+    throw new Error('WooCommerce returned no products; the existing snapshot was kept.');
+  }
+  const snapshot = createCatalogSnapshot(products, process.env.WP_API_BASE ?? process.env.PUBLIC_WP_API_BASE);
+  await mkdir(dirname(outPath), { recursive: true });
+  await writeFile(outPath, `${JSON.stringify(snapshot, null, 2)}\n`, 'utf8');
+  console.log(`Wrote ${products.length} products to ${outPath}`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,49 @@
+#!/usr/bin/env node
+// Indexe les photos locales (empreinte, dimensions, miniature floue) dans le manifeste d'images.
+//
+//   npm run optimize-images
+//   npm run optimize-images -- --variants
+//
+// Avec --variants, écrit aussi les variantes AVIF/WebP dans public/img/ (servies telles quelles par Vercel) ;
+// sans, la route /img/ les calcule à la première demande et le CDN les garde en cache.
+import { readFile, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { createServer } from 'vite';
+
+const MANIFEST_PATH = resolve('src/data/image-manifest.json');
+const PUBLIC_DIR = resolve('public');
+
+const writeVariants = process.argv.includes('--variants');
+
+const readPrevious = async () => {
+  try {
+    return JSON.parse(await readFile(MANIFEST_PATH, 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+// Vite charge les modules TypeScript du site : les empreintes sont exactement celles des pages.
+const server = await createServer({
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const { optimizeLocalImages } = await server.ssrLoadModule('/src/lib/imagePipeline.ts');
+  const manifest = await optimizeLocalImages({
+    publicDir: PUBLIC_DIR,
+    previous: await readPrevious(),
+    writeVariants,
+    onProgress: message => console.log(message),
+  });
+  await writeFile(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+  console.log(`Indexed ${Object.keys(manifest.images).length} images in ${MANIFEST_PATH}`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
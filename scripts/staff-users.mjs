@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+// Gestion des comptes de la galerie (certificats, leads, catalogue).
+//
+//   npm run staff-users -- add layla --roles issue-certificates,view-leads,manage-catalog --name "Layla Lastra"
+//   npm run staff-users -- remove assistant
+//   npm run staff-users -- list
+//   npm run staff-users -- hash            (affiche un hash à coller dans COA_USERS)
+//
+// Le fichier par défaut est data/staff-users.json (ou COA_USERS_FILE / --file).
+import { randomBytes, scryptSync } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { createInterface } from 'node:readline';
+
+const STAFF_ROLES = ['issue-certificates', 'view-leads', 'manage-catalog'];
+
+// Même format que hashPassword() dans src/lib/staffUsers.ts.
+const hashPassword = password => {
+  const N = 16384;
+  const r = 8;
+  const p = 1;
+  const salt = randomBytes(16);
+  const hash = scryptSync(password, salt, 32, { N, r, p });
+  return `scrypt$${N}$${r}$${p}$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+};
+
+const parseArgs = argv => {
+  const positional = [];
+  const options = {};
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    if (arg.startsWith('--')) {
+      options[arg.slice(2)] = argv[index + 1];
+      index += 1;
+    } else {
+      positional.push(arg);
+    }
+  }
+  return { positional, options };
+};
+
+const promptPassword = label =>
+  new Promise(resolvePrompt => {
+    const rl = createInterface({
+      input: process.stdin,
+      output: process.stdout,
+      terminal: Boolean(process.stdin.isTTY),
+    });
+    const muted = process.stdin.isTTY;
+    if (muted) {
+      rl._writeToOutput = text => {
+        if (text.includes(label)) rl.output.write(text);
+      };
+    }
+    rl.question(label, answer => {
+      rl.close();
+      if (muted) process.stdout.write('\n');
+      resolvePrompt(answer);
+    });
+  });
+
+const readPassword = async () => {
+  const password = await promptPassword('Mot de passe : ');
+  if (process.stdin.isTTY) {
+    const confirmation = await promptPassword('Confirmer : ');
+    if (confirmation !== password) throw new Error('Les mots de passe ne correspondent pas.');
+  }
+  if (password.length < 10) throw new Error('Le mot de passe doit faire au moins 10 caractères.');
+  return password;
+};
+
+const readUsers = async file => {
+  try {
+    const parsed = JSON.parse(await readFile(file, 'utf8'));
+    return Array.isArray(parsed) ? parsed : Array.isArray(parsed.users) ? parsed.users : [];
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+};
+
+const writeUsers = async (file, users) => {
+  await mkdir(dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify({ users }, null, 2)}\n`, { mode: 0o600 });
+};
+
+const parseRoles = value => {
+  const roles = (value ?? '')
+    .split(',')
+    .map(role => role.trim())
+    .filter(Boolean);
+  const unknown = roles.filter(role => !STAFF_ROLES.includes(role));
+  if (unknown.length > 0) {
+    throw new Error(`Rôle inconnu : ${unknown.join(', ')} (rôles : ${STAFF_ROLES.join(', ')})`);
+  }
+  return roles;
+};
+
+const main = async () => {
+  const { positional, options } = parseArgs(process.argv.slice(2));
+  const [command, rawUsername] = positional;
+  const file = resolve(options.file ?? process.env.COA_USERS_FILE ?? 'data/staff-users.json');
+  const username = rawUsername?.trim().toLowerCase();
+
+  switch (command) {
+    case 'hash': {
+      console.log(hashPassword(await readPassword()));
+      return;
+    }
+    case 'list': {
+      const users = await readUsers(file);
+      for (const user of users) {
+        console.log(`${user.username}\t${(user.roles ?? []).join(',')}\t${user.name ?? ''}`);
+      }
+      return;
+    }
+    case 'add': {
+      if (!username) throw new Error('Nom d’utilisateur manquant.');
+      const roles = parseRoles(options.roles);
+      const users = await readUsers(file);
+      const existing = users.find(user => user.username === username);
+      const user = {
+        username,
+        name: options.name ?? existing?.name,
+        passwordHash: hashPassword(await readPassword()),
+        roles: roles.length > 0 ? roles : existing?.roles ?? [],
+      };
+      await writeUsers(file, [...users.filter(candidate => candidate.username !== username), user]);
+      console.log(`${existing ? 'Mis à jour' : 'Ajouté'} : ${username} (${user.roles.join(', ') || 'aucun rôle'})`);
+      return;
+    }
+    case 'remove': {
+      if (!username) throw new Error('Nom d’utilisateur manquant.');
+      const users = await readUsers(file);
+      await writeUsers(file, users.filter(user => user.username !== username));
+      console.log(`Supprimé : ${username}`);
+      return;
+    }
+    default:
+      console.log('Usage : staff-users <add|remove|list|hash> [username] [--roles a,b] [--name ""] [--file path]');
+      process.exitCode = command ? 1 : 0;
+  }
+};
+
+main().catch(error => {
+  console.error(error.message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,7 @@
+declare namespace App {
+  interface Locals {
+    staff: import('./lib/coaAuth').StaffSession | null;
+    // Devise d'affichage choisie par le visiteur ; null : celle de la langue de la page.
+    currency: import('./lib/currency').Currency | null;
+  }
+}
@@ -0,0 +1,80 @@
+export type ContentLang = 'es' | 'en';
+
+// Le catalogue WooCommerce est saisi en espagnol ; l'anglais est une traduction.
+export const SOURCE_LANG: ContentLang = 'es';
+
+export type ArtworkCopy = {
+  title: string;
+  description: string | null;
+  medium: string | null;
+};
+
+export type ArtworkTranslations = Partial<Record<ContentLang, Partial<ArtworkCopy>>>;
+
+type LocalizableArtwork = {
+  title: string;
+  description?: string | null;
+  medium?: string | null;
+  translations?: ArtworkTranslations;
+};
+
+// Champs personnalisés saisis dans WooCommerce : _mlag_title_en, _mlag_description_en, _mlag_medium_en.
+const TRANSLATION_META_PATTERN = /^_mlag_(title|description|medium)_(es|en)$/;
+const COPY_FIELDS: Array<keyof ArtworkCopy> = ['title', 'description', 'medium'];
+
+export const getTranslationMetaKey = (field: keyof ArtworkCopy, lang: ContentLang) =>
+  `_mlag_${field}_${lang}`;
+
+const cleanText = (value: unknown) =>
+  typeof value === 'string'
+    ? value.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim() || null
+    : null;
+
+export const readTranslationMeta = (meta?: Array<{ key: string; value: unknown }>) => {
+  const translations: ArtworkTranslations = {};
+  for (const entry of meta ?? []) {
+    const match = typeof entry?.key === 'string' ? entry.key.match(TRANSLATION_META_PATTERN) : null;
+    const field = COPY_FIELDS.find(candidate => candidate === match?.[1]);
+    const lang = parseContentLang(match?.[2]);
+    const value = cleanText(entry?.value);
+    if (!field || !lang || !value) continue;
+    translations[lang] = { ...translations[lang], [field]: value };
+  }
+  return translations;
+};
+
+export const parseContentLang = (value: unknown): ContentLang | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase().slice(0, 2);
+  return normalized === 'es' || normalized === 'en' ? normalized : null;
+};
+
+export const mediumLabels: Record<ContentLang, Record<string, string>> = {
+  es: { acrylic: 'Acrílico', oil: 'Óleo' },
+  en: { acrylic: 'Acrylic', oil: 'Oil' },
+};
+
+// Dernier recours quand la technique n'est pas traduite : les techniques connues ont un libellé fixe.
+export const translateMedium = (value: string | null | undefined, lang: ContentLang) => {
+  if (!value) return null;
+  const normalized = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+  if (/\bacrilic(?:o|a)?\b|\bacrylic\b/.test(normalized)) return mediumLabels[lang].acrylic;
+  if (/\boleo\b|\boil\b/.test(normalized)) return mediumLabels[lang].oil;
+  return value;
+};
+
+// Titre et description retombent sur l'espagnol ; `descriptionLang` dit dans quelle langue est le texte.
+export const localizeArtwork = <T extends LocalizableArtwork>(item: T, lang: ContentLang) => {
+  const copy = item.translations?.[lang] ?? {};
+  const descriptionTranslated = lang === SOURCE_LANG || Boolean(copy.description);
+  return {
+    ...item,
+    title: copy.title ?? item.title,
+    description: copy.description ?? item.description ?? null,
+    medium: copy.medium ?? translateMedium(item.medium, lang),
+    descriptionLang: descriptionTranslated ? lang : SOURCE_LANG,
+  };
+};
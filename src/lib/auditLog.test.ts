@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAuditLogStore, queryAuditEvents, recordAuditEvent, type AuditLogStore } from './auditLog';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('recordAuditEvent', () => {
+  it('appends a complete event', async () => {
+    const store = createMemoryAuditLogStore();
+    expect(await recordAuditEvent({ type: 'login.success', actor: 'layla', ip: '203.0.113.5' }, store)).toBe(true);
+    const [event] = await queryAuditEvents({}, store);
+    expect(event).toMatchObject({ type: 'login.success', actor: 'layla', ip: '203.0.113.5', subject: null, details: {} });
+    expect(event.id).toBeTruthy();
+  });
+
+  it('reports a failed write with the event instead of throwing', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const broken: AuditLogStore = {
+      append: async () => {
+        throw new Error('EROFS: read-only file system');
+      },
+      readAll: async () => [],
+    };
+    expect(await recordAuditEvent({ type: 'certificate.voided', subject: 'MLAG-2026-0007' }, broken)).toBe(false);
+    expect(error).toHaveBeenCalledWith('Audit log write failed', expect.stringContaining('MLAG-2026-0007'), expect.any(Error));
+  });
+});
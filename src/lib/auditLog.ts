@@ -0,0 +1,158 @@
+import { randomUUID } from 'node:crypto';
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { getEnvValue, isServerlessRuntime } from './env';
+import { getKvClient, isKvConfigured, type KvClient } from './kv';
+
+export type AuditEventType =
+  | 'login.success'
+  | 'login.failure'
+  | 'login.locked'
+  | 'logout'
+  | 'certificate.issued'
+  | 'certificate.voided'
+  | 'lead.status-changed'
+  | 'lead.note-added';
+
+export type AuditEvent = {
+  id: string;
+  at: string;
+  type: AuditEventType;
+  actor: string | null;
+  ip: string | null;
+  subject: string | null;
+  details: Record<string, unknown>;
+};
+
+export type AuditQuery = {
+  type?: AuditEventType | null;
+  actor?: string | null;
+  subject?: string | null;
+  since?: string | null;
+  until?: string | null;
+  limit?: number;
+};
+
+// Journal en ajout seul : aucune méthode ne permet de modifier ou supprimer une entrée.
+export interface AuditLogStore {
+  append(event: AuditEvent): Promise<void>;
+  readAll(): Promise<AuditEvent[]>;
+}
+
+export const createMemoryAuditLogStore = (): AuditLogStore => {
+  const events: AuditEvent[] = [];
+  return {
+    append: async event => {
+      events.push(Object.freeze({ ...event }));
+    },
+    readAll: async () => [...events],
+  };
+};
+
+export const createJsonlAuditLogStore = (path: string): AuditLogStore => {
+  const filePath = resolve(path);
+  return {
+    append: async event => {
+      await mkdir(dirname(filePath), { recursive: true });
+      await appendFile(filePath, `${JSON.stringify(event)}\n`, 'utf8');
+    },
+    readAll: async () => {
+      try {
+        return (await readFile(filePath, 'utf8'))
+          .split('\n')
+          .filter(Boolean)
+          .flatMap(line => {
+            try {
+              return [JSON.parse(line) as AuditEvent];
+            } catch {
+              return [];
+            }
+          });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+  };
+};
+
+// Liste Redis en ajout seul (RPUSH), partagée par toutes les instances.
+export const createKvAuditLogStore = (kv: KvClient, key = 'mlag:audit'): AuditLogStore => ({
+  append: async event => {
+    await kv.command('RPUSH', key, JSON.stringify(event));
+  },
+  readAll: async () =>
+    (await kv.command<string[]>('LRANGE', key, 0, -1)).flatMap(line => {
+      try {
+        return [JSON.parse(line) as AuditEvent];
+      } catch {
+        return [];
+      }
+    }),
+});
+
+let auditLogStore: AuditLogStore | null = null;
+
+export const getAuditLogStore = () => {
+  if (auditLogStore) return auditLogStore;
+  const kind = (getEnvValue(['AUDIT_STORE']) ?? (isKvConfigured() ? 'kv' : 'file')).trim().toLowerCase();
+  // Sur Vercel, un fichier local disparaît avec l'instance : le journal serait vide.
+  if (kind !== 'kv' && isServerlessRuntime()) {
+    throw new Error(`AUDIT_STORE=${kind} does not persist on Vercel; use AUDIT_STORE=kv`);
+  }
+
+  switch (kind) {
+    case 'memory':
+      auditLogStore = createMemoryAuditLogStore();
+      break;
+    case 'file':
+      auditLogStore = createJsonlAuditLogStore(getEnvValue(['AUDIT_LOG_PATH']) ?? 'data/audit.log.jsonl');
+      break;
+    case 'kv':
+      auditLogStore = createKvAuditLogStore(getKvClient('AUDIT_STORE'));
+      break;
+    default:
+      throw new Error(`Unknown AUDIT_STORE "${kind}"`);
+  }
+  return auditLogStore;
+};
+
+// L'audit ne doit jamais faire échouer l'action qu'il décrit : un échec d'écriture est signalé
+// comme une erreur, avec l'évènement complet pour qu'il reste au moins dans les journaux du serveur.
+export const recordAuditEvent = async (
+  event: Pick<AuditEvent, 'type'> & Partial<Omit<AuditEvent, 'id' | 'at' | 'type'>>,
+  store?: AuditLogStore
+) => {
+  const entry: AuditEvent = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    type: event.type,
+    actor: event.actor ?? null,
+    ip: event.ip ?? null,
+    subject: event.subject ?? null,
+    details: event.details ?? {},
+  };
+  try {
+    await (store ?? getAuditLogStore()).append(entry);
+    return true;
+  } catch (error) {
+    console.error('Audit log write failed', JSON.stringify(entry), error);
+    return false;
+  }
+};
+
+export const queryAuditEvents = async (
+  query: AuditQuery = {},
+  store: AuditLogStore = getAuditLogStore()
+) => {
+  const limit = Math.min(Math.max(Math.floor(query.limit ?? 200), 1), 1000);
+  const events = await store.readAll();
+  return events
+    .filter(event => !query.type || event.type === query.type)
+    .filter(event => !query.actor || event.actor === query.actor)
+    .filter(event => !query.subject || event.subject === query.subject)
+    .filter(event => !query.since || event.at >= query.since)
+    .filter(event => !query.until || event.at <= query.until)
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, limit);
+};
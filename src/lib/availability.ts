@@ -0,0 +1,99 @@
+import type { StockStatus } from './wp';
+
+export const ARTWORK_AVAILABILITIES = ['available', 'reserved', 'sold', 'on-loan'] as const;
+
+export type ArtworkAvailability = (typeof ARTWORK_AVAILABILITIES)[number];
+
+// Méta WooCommerce prioritaire sur les étiquettes, elles-mêmes prioritaires sur le stock.
+export const AVAILABILITY_META_KEY = '_mlag_availability';
+
+type AvailabilitySource = {
+  stockStatus?: StockStatus | null;
+  tagSlugs?: string[];
+  metaValue?: unknown;
+};
+
+const aliases: Record<string, ArtworkAvailability> = {
+  available: 'available',
+  disponible: 'available',
+  reserved: 'reserved',
+  reservado: 'reserved',
+  reservada: 'reserved',
+  sold: 'sold',
+  vendido: 'sold',
+  vendida: 'sold',
+  'on-loan': 'on-loan',
+  loan: 'on-loan',
+  'en-prestamo': 'on-loan',
+  prestamo: 'on-loan',
+  prestada: 'on-loan',
+  prestado: 'on-loan',
+};
+
+const normalizeKey = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/[\s_]+/g, '-');
+
+export const parseAvailability = (value: unknown): ArtworkAvailability | null =>
+  typeof value === 'string' ? aliases[normalizeKey(value)] ?? null : null;
+
+export const deriveAvailability = ({
+  stockStatus,
+  tagSlugs = [],
+  metaValue,
+}: AvailabilitySource): ArtworkAvailability => {
+  const fromMeta = parseAvailability(metaValue);
+  if (fromMeta) return fromMeta;
+
+  // Une œuvre vendue reste vendue même si une étiquette « réservée » traîne encore.
+  const fromTags = tagSlugs.map(parseAvailability).filter(Boolean) as ArtworkAvailability[];
+  for (const status of ['sold', 'on-loan', 'reserved'] as const) {
+    if (fromTags.includes(status)) return status;
+  }
+
+  if (stockStatus === 'outofstock') return 'sold';
+  if (stockStatus === 'onbackorder') return 'reserved';
+  return 'available';
+};
+
+export const availabilityLabels: Record<'es' | 'en', Record<ArtworkAvailability, string>> = {
+  es: {
+    available: 'Disponible',
+    reserved: 'Reservada',
+    sold: 'Vendida',
+    'on-loan': 'En préstamo',
+  },
+  en: {
+    available: 'Available',
+    reserved: 'Reserved',
+    sold: 'Sold',
+    'on-loan': 'On loan',
+  },
+};
+
+export const availabilitySchemaUrl: Record<ArtworkAvailability, string> = {
+  available: 'https://schema.org/InStock',
+  reserved: 'https://schema.org/Reserved',
+  sold: 'https://schema.org/SoldOut',
+  'on-loan': 'https://schema.org/OutOfStock',
+};
+
+export const isSold = (item: { availability?: ArtworkAvailability | null }) =>
+  item.availability === 'sold';
+
+// Le prix d'une œuvre vendue n'est plus affiché publiquement.
+export const getVisiblePriceText = (item: {
+  priceText?: string | null;
+  availability?: ArtworkAvailability | null;
+}) => (isSold(item) ? null : item.priceText ?? null);
+
+// Tri stable : l'ordre WooCommerce est conservé, les œuvres vendues passent à la fin.
+export const sortSoldLast = <T extends { availability?: ArtworkAvailability | null }>(items: T[]) =>
+  items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => Number(isSold(a.item)) - Number(isSold(b.item)) || a.index - b.index)
+    .map(({ item }) => item);
@@ -0,0 +1,229 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { getEnvValue } from './env';
+import { getKvClient, type KvClient } from './kv';
+
+export type CacheEntry<T = unknown> = {
+  key: string;
+  value: T;
+  storedAt: number;
+  // Au-delà de freshUntil l'entrée est servie puis rafraîchie ; au-delà de staleUntil elle est refaite.
+  freshUntil: number;
+  staleUntil: number;
+  tags: string[];
+};
+
+// Un backend partagé entre instances n'a qu'à implémenter ces quatre méthodes.
+export interface CatalogCacheStore {
+  get(key: string): Promise<CacheEntry | null>;
+  set(entry: CacheEntry): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  keysForTags(tags: string[]): Promise<string[]>;
+}
+
+// Taille bornée : des slugs inventés ne doivent pas faire grossir la mémoire sans fin.
+export const createMemoryCacheStore = (maxEntries = 500): CatalogCacheStore => {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: async key => entries.get(key) ?? null,
+    set: async entry => {
+      entries.delete(entry.key);
+      entries.set(entry.key, entry);
+      for (const key of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(key);
+      }
+    },
+    delete: async keys => {
+      for (const key of keys) entries.delete(key);
+    },
+    keysForTags: async tags =>
+      [...entries.values()]
+        .filter(entry => entry.tags.some(tag => tags.includes(tag)))
+        .map(entry => entry.key),
+  };
+};
+
+// Un fichier JSON par clé : les écritures d'une clé n'écrasent jamais les autres.
+export const createFileCacheStore = (path: string): CatalogCacheStore => {
+  const directory = resolve(path);
+  const fileFor = (key: string) =>
+    join(directory, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}.json`);
+
+  const readEntry = async (file: string) => {
+    try {
+      return JSON.parse(await readFile(file, 'utf8')) as CacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      console.warn('Catalog cache entry unreadable', file, error);
+      return null;
+    }
+  };
+
+  return {
+    get: async key => {
+      const entry = await readEntry(fileFor(key));
+      return entry?.key === key ? entry : null;
+    },
+    set: async entry => {
+      await mkdir(directory, { recursive: true });
+      const file = fileFor(entry.key);
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await writeFile(tempFile, JSON.stringify(entry), 'utf8');
+      await rename(tempFile, file);
+    },
+    delete: async keys => {
+      await Promise.all(keys.map(key => rm(fileFor(key), { force: true })));
+    },
+    keysForTags: async tags => {
+      let files: string[];
+      try {
+        files = (await readdir(directory)).filter(file => file.endsWith('.json'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      const entries = await Promise.all(files.map(file => readEntry(join(directory, file))));
+      return entries
+        .filter((entry): entry is CacheEntry => Boolean(entry?.tags?.some(tag => tags.includes(tag))))
+        .map(entry => entry.key);
+    },
+  };
+};
+
+// Vercel KV / Upstash : une entrée par clé, expirée par Redis à la fin de sa fenêtre stale.
+export const createKvCacheStore = (kv: KvClient, prefix = 'mlag:catalog:'): CatalogCacheStore => {
+  const tagKey = (tag: string) => `${prefix}tag:${tag}`;
+
+  return {
+    get: async key => {
+      const raw = await kv.command<string | null>('GET', `${prefix}${key}`);
+      return raw ? (JSON.parse(raw) as CacheEntry) : null;
+    },
+    set: async entry => {
+      const ttlMs = Math.max(1000, entry.staleUntil - Date.now());
+      // Les index d'étiquettes peuvent garder des clés expirées : une suppression de trop est sans effet.
+      await kv.pipeline([
+        ['SET', `${prefix}${entry.key}`, JSON.stringify(entry), 'PX', ttlMs],
+        ...entry.tags.map(tag => ['SADD', tagKey(tag), entry.key]),
+      ]);
+    },
+    delete: async keys => {
+      if (keys.length > 0) await kv.command('DEL', ...keys.map(key => `${prefix}${key}`));
+    },
+    keysForTags: async tags => {
+      const members = await Promise.all(tags.map(tag => kv.command<string[]>('SMEMBERS', tagKey(tag))));
+      await Promise.all(tags.map(tag => kv.command('DEL', tagKey(tag))));
+      return [...new Set(members.flat())];
+    },
+  };
+};
+
+let cacheStore: CatalogCacheStore | null = null;
+
+export const getCatalogCacheStore = () => {
+  if (cacheStore) return cacheStore;
+  const kind = (getEnvValue(['CATALOG_CACHE']) ?? 'memory').trim().toLowerCase();
+
+  switch (kind) {
+    case 'memory':
+      cacheStore = createMemoryCacheStore();
+      break;
+    case 'file':
+      cacheStore = createFileCacheStore(getEnvValue(['CATALOG_CACHE_PATH']) ?? 'data/catalog-cache');
+      break;
+    case 'kv':
+      cacheStore = createKvCacheStore(getKvClient('CATALOG_CACHE'));
+      break;
+    default:
+      throw new Error(`Unknown CATALOG_CACHE "${kind}"`);
+  }
+  return cacheStore;
+};
+
+const readDuration = (keys: string[], fallback: number) => {
+  const parsed = Number(getEnvValue(keys));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const DEFAULT_FRESH_MS = 5 * 60 * 1000;
+const DEFAULT_STALE_MS = 24 * 60 * 60 * 1000;
+
+export const getCacheDurations = () => ({
+  freshMs: readDuration(['WP_CACHE_TTL_MS', 'WP_CACHE_TTL'], DEFAULT_FRESH_MS),
+  staleMs: readDuration(['WP_CACHE_STALE_MS'], DEFAULT_STALE_MS),
+});
+
+type CachedOptions<T> = {
+  tags: (value: T) => string[];
+};
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+const store = async <T>(key: string, loader: () => Promise<T>, options: CachedOptions<T>) => {
+  const { freshMs, staleMs } = getCacheDurations();
+  const value = await loader();
+  const now = Date.now();
+  try {
+    await getCatalogCacheStore().set({
+      key,
+      value,
+      storedAt: now,
+      freshUntil: now + freshMs,
+      staleUntil: now + freshMs + staleMs,
+      tags: options.tags(value),
+    });
+  } catch (error) {
+    console.warn('Catalog cache write failed', key, error);
+  }
+  return value;
+};
+
+// Une seule requête WooCommerce par clé et par instance, même sous charge.
+const refresh = <T>(key: string, loader: () => Promise<T>, options: CachedOptions<T>) => {
+  const pending = inFlight.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+  const promise = store(key, loader, options).finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+};
+
+export const cached = async <T>(
+  key: string,
+  loader: () => Promise<T>,
+  options: CachedOptions<T>
+): Promise<T> => {
+  let entry: CacheEntry<T> | null = null;
+  try {
+    entry = (await getCatalogCacheStore().get(key)) as CacheEntry<T> | null;
+  } catch (error) {
+    console.warn('Catalog cache read failed', key, error);
+  }
+
+  const now = Date.now();
+  if (entry && entry.freshUntil > now) return entry.value;
+
+  if (entry && entry.staleUntil > now) {
+    // Stale-while-revalidate : la réponse part tout de suite, le rafraîchissement suit.
+    refresh(key, loader, options).catch(error =>
+      console.warn('Catalog cache revalidation failed', key, error)
+    );
+    return entry.value;
+  }
+
+  try {
+    return await refresh(key, loader, options);
+  } catch (error) {
+    // WooCommerce indisponible : une entrée expirée vaut mieux qu'une page vide.
+    if (entry) return entry.value;
+    throw error;
+  }
+};
+
+export const purgeCacheTags = async (tags: string[]) => {
+  const cacheStore = getCatalogCacheStore();
+  const keys = await cacheStore.keysForTags(tags);
+  await cacheStore.delete(keys);
+  return keys;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { filterCatalog, getMediumOptions, parseCatalogFilters } from './catalogFilters';
+
+const artworks = [
+  {
+    title: 'Tormenta',
+    medium: 'Acrílico',
+    price: 1200,
+    priceText: '$1,200 USD',
+    size: { width: 36.5, height: 48, depth: null, unit: 'in', orientation: 'portrait' },
+  },
+  {
+    title: 'Danza',
+    medium: 'Óleo sobre tela',
+    price: 950.5,
+    priceText: '$950.50 USD',
+    size: { width: 30, height: 30, depth: null, unit: 'in', orientation: 'square' },
+  },
+  { title: 'Espirales', medium: 'Técnica mixta', price: null, priceText: null, size: null },
+] satisfies Parameters<typeof filterCatalog>[0];
+
+const filter = (query: string) =>
+  filterCatalog(artworks, parseCatalogFilters(new URLSearchParams(query))).map(item => item.title);
+
+describe('catalog filters', () => {
+  it('offers the normalized medium keys as option values', () => {
+    expect(getMediumOptions(artworks, 'es').map(option => option.value)).toEqual([
+      'acrylic',
+      'oil',
+      'tecnica-mixta',
+    ]);
+  });
+
+  it.each([
+    ['medium=acrylic', ['Tormenta']],
+    ['medium=acrilico', ['Tormenta']],
+    ['medium=Acr%C3%ADlico', ['Tormenta']],
+    ['medium=oleo', ['Danza']],
+    ['medium=tecnica-mixta', ['Espirales']],
+  ])('?%s keeps %j', (query, expected) => {
+    expect(filter(query)).toEqual(expected);
+  });
+
+  it('accepts decimal sizes and prices', () => {
+    expect(parseCatalogFilters(new URLSearchParams('size_min=36.5&price_max=950.5'))).toMatchObject({
+      sizeMin: 36.5,
+      priceMax: 950.5,
+    });
+    expect(filter('price_min=950.5&price_max=950.5')).toEqual(['Danza']);
+    expect(filter('size_max=47.5')).toEqual(['Danza']);
+  });
+});
@@ -0,0 +1,161 @@
+import { mediumLabels } from './artworkTranslations';
+import { parseAvailability, getVisiblePriceText, type ArtworkAvailability } from './availability';
+import {
+  getArea,
+  getLongestSide,
+  type ArtworkDimensions,
+  type Orientation,
+} from './dimensions';
+import { slugify } from './slugify';
+
+export type CatalogFilters = {
+  q: string | null;
+  medium: string | null;
+  sizeMin: number | null;
+  sizeMax: number | null;
+  priceMin: number | null;
+  priceMax: number | null;
+  status: ArtworkAvailability | null;
+  orientation: Orientation | null;
+  sort: CatalogSort | null;
+};
+
+export const CATALOG_SORTS = ['size-asc', 'size-desc'] as const;
+
+export type CatalogSort = (typeof CATALOG_SORTS)[number];
+
+const ORIENTATIONS: Orientation[] = ['portrait', 'landscape', 'square'];
+
+type FilterableArtwork = {
+  title: string;
+  description?: string | null;
+  medium?: string | null;
+  dimensions?: string | null;
+  size?: ArtworkDimensions | null;
+  price?: number | null;
+  priceText?: string | null;
+  availability?: ArtworkAvailability | null;
+};
+
+// Noms de paramètres communs aux deux langues : un lien filtré reste valable après changement de langue.
+const PARAMS = {
+  q: 'q',
+  medium: 'medium',
+  sizeMin: 'size_min',
+  sizeMax: 'size_max',
+  priceMin: 'price_min',
+  priceMax: 'price_max',
+  status: 'status',
+  orientation: 'orientation',
+  sort: 'sort',
+} as const satisfies Record<keyof CatalogFilters, string>;
+
+const foldText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const parsePositiveNumber = (value: string | null) => {
+  if (!value?.trim()) return null;
+  const parsed = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export const getMediumKey = (medium?: string | null) => {
+  if (!medium) return null;
+  const folded = foldText(medium);
+  if (/\bacril|\bacryl/.test(folded)) return 'acrylic';
+  if (/\boleo\b|\boil\b/.test(folded)) return 'oil';
+  return slugify(medium) || null;
+};
+
+export const parseCatalogFilters = (params: URLSearchParams): CatalogFilters => {
+  const medium = params.get(PARAMS.medium)?.trim();
+  return {
+    q: params.get(PARAMS.q)?.trim().slice(0, 100) || null,
+    // « acrilico », « Acrílico » ou « acrylic » désignent la même technique que les options du filtre.
+    medium: getMediumKey(medium),
+    sizeMin: parsePositiveNumber(params.get(PARAMS.sizeMin)),
+    sizeMax: parsePositiveNumber(params.get(PARAMS.sizeMax)),
+    priceMin: parsePositiveNumber(params.get(PARAMS.priceMin)),
+    priceMax: parsePositiveNumber(params.get(PARAMS.priceMax)),
+    status: parseAvailability(params.get(PARAMS.status)),
+    orientation: ORIENTATIONS.find(value => value === params.get(PARAMS.orientation)) ?? null,
+    sort: CATALOG_SORTS.find(value => value === params.get(PARAMS.sort)) ?? null,
+  };
+};
+
+// Le tri seul ne compte pas comme un filtre : il ne retire aucune œuvre.
+export const hasActiveFilters = ({ sort: _sort, ...filters }: CatalogFilters) =>
+  Object.values(filters).some(value => value !== null);
+
+export const filterCatalog = <T extends FilterableArtwork>(items: T[], filters: CatalogFilters) => {
+  const terms = filters.q ? foldText(filters.q).split(/\s+/).filter(Boolean) : [];
+  const hasSizeFilter = filters.sizeMin !== null || filters.sizeMax !== null;
+  const hasPriceFilter = filters.priceMin !== null || filters.priceMax !== null;
+
+  return items.filter(item => {
+    if (filters.medium && getMediumKey(item.medium) !== filters.medium) return false;
+    if (filters.status && (item.availability ?? 'available') !== filters.status) return false;
+
+    if (filters.orientation && item.size?.orientation !== filters.orientation) return false;
+
+    if (hasSizeFilter) {
+      if (!item.size) return false;
+      const side = getLongestSide(item.size);
+      if (filters.sizeMin !== null && side < filters.sizeMin) return false;
+      if (filters.sizeMax !== null && side > filters.sizeMax) return false;
+    }
+
+    // Un prix masqué (œuvre vendue) ne doit pas pouvoir être deviné par filtrage.
+    if (hasPriceFilter) {
+      const price = getVisiblePriceText(item) ? item.price ?? null : null;
+      if (price === null) return false;
+      if (filters.priceMin !== null && price < filters.priceMin) return false;
+      if (filters.priceMax !== null && price > filters.priceMax) return false;
+    }
+
+    if (terms.length > 0) {
+      const haystack = foldText(`${item.title} ${item.description ?? ''}`);
+      if (!terms.every(term => haystack.includes(term))) return false;
+    }
+    return true;
+  });
+};
+
+// Les œuvres sans dimensions connues restent à la fin, dans leur ordre d'origine.
+export const sortCatalog = <T extends FilterableArtwork>(items: T[], sort: CatalogSort | null) => {
+  if (!sort) return items;
+  const direction = sort === 'size-desc' ? -1 : 1;
+  return items
+    .map((item, index) => ({ item, index, area: item.size ? getArea(item.size) : null }))
+    .sort((a, b) => {
+      if (a.area === null || b.area === null) {
+        return Number(a.area === null) - Number(b.area === null) || a.index - b.index;
+      }
+      return (a.area - b.area) * direction || a.index - b.index;
+    })
+    .map(({ item }) => item);
+};
+
+export const getMediumOptions = (items: FilterableArtwork[], lang: 'es' | 'en') => {
+  const options = new Map<string, string>();
+  for (const item of items) {
+    const key = getMediumKey(item.medium);
+    if (key && !options.has(key)) options.set(key, mediumLabels[lang][key] ?? item.medium ?? key);
+  }
+  return [...options].map(([value, label]) => ({ value, label }));
+};
+
+// Ordre des paramètres fixe : une même sélection produit toujours la même URL canonique.
+export const buildCatalogHref = (basePath: string, filters: CatalogFilters, page = 1) => {
+  const params = new URLSearchParams();
+  for (const key of Object.keys(PARAMS) as Array<keyof CatalogFilters>) {
+    const value = filters[key];
+    if (value !== null) params.set(PARAMS[key], String(value));
+  }
+  if (page > 1) params.set('page', String(page));
+  const query = params.toString();
+  return query ? `${basePath}?${query}` : basePath;
+};
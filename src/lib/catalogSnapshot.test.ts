@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CATALOG_SNAPSHOT_VERSION,
+  createCatalogSnapshot,
+  createSnapshotCatalog,
+  type SeedArtwork,
+} from './catalogSnapshot';
+import type { ProductCard, ProductQuery } from './wp';
+
+const seed: SeedArtwork[] = [
+  { title: 'Mujer', slug: 'mujer', image: '/pinturas/preview/mujer.webp' },
+  { title: 'Mujer pensante', slug: 'mujer-pensante', image: '/pinturas/preview/mujer-pensante.webp' },
+  { title: 'Atardecer', slug: 'atardecer', image: '/pinturas/preview/atardecer.webp' },
+];
+
+const products: ProductCard[] = [
+  {
+    id: 12,
+    title: 'Tormenta',
+    slug: 'tormenta',
+    link: 'https://example.com/tormenta',
+    image: '/tormenta.webp',
+    price: 1200,
+    description: 'Luz sobre el mar',
+    stockStatus: 'instock',
+    categories: [{ id: 3, name: 'Lunas', slug: 'lunas' }],
+    tags: [{ id: 9, name: 'Serie azul', slug: 'serie-azul' }],
+  },
+  {
+    id: 13,
+    title: 'Danza',
+    slug: 'danza',
+    link: 'https://example.com/danza',
+    image: '/danza.webp',
+    stockStatus: 'outofstock',
+    categories: [{ id: 4, name: 'Retratos', slug: 'retratos' }],
+  },
+  { id: 14, title: 'Sin imagen', slug: 'sin-imagen', link: 'https://example.com/sin-imagen', image: null },
+];
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('catalog snapshot', () => {
+  const catalog = () => createSnapshotCatalog(createCatalogSnapshot(products, 'https://example.com/wp-json'), seed);
+
+  it('reports the snapshot and keeps only products with an image', () => {
+    expect(catalog().info()).toMatchObject({ kind: 'snapshot', source: 'https://example.com/wp-json', count: 2 });
+    expect(catalog().find('sin-imagen')).toBeNull();
+    expect(catalog().find('tormenta')).toMatchObject({ id: 12, price: 1200 });
+  });
+
+  it('applies the WooCommerce filters locally', () => {
+    const slugs = (query: ProductQuery, limit = 10) =>
+      catalog().query(query, limit).map(product => product.slug);
+    expect(slugs({ category: 'lunas' })).toEqual(['tormenta']);
+    expect(slugs({ category: 4 })).toEqual(['danza']);
+    expect(slugs({ tag: 'serie-azul' })).toEqual(['tormenta']);
+    expect(slugs({ stockStatus: 'outofstock' })).toEqual(['danza']);
+    expect(slugs({ search: 'MAR' })).toEqual(['tormenta']);
+    expect(slugs({}, 1)).toEqual(['tormenta']);
+  });
+
+  it('falls back to the seed list when the snapshot version is stale', () => {
+    const stale = { ...createCatalogSnapshot(products, 'x'), version: CATALOG_SNAPSHOT_VERSION + 1 };
+    expect(createSnapshotCatalog(stale, seed).find('tormenta')).toBeNull();
+    expect(createSnapshotCatalog(stale, seed).info().count).toBe(3);
+  });
+});
+
+describe('catalog seed fallback', () => {
+  const catalog = () => createSnapshotCatalog(null, seed);
+
+  it('reports the seed list instead of pretending to be a snapshot', () => {
+    expect(catalog().info()).toEqual({ kind: 'seed', generatedAt: null, source: null, count: 3 });
+  });
+
+  it('serves seed artworks as display-only products', () => {
+    const mujer = catalog().find('mujer');
+    expect(mujer).toMatchObject({ id: 0, title: 'Mujer', slug: 'mujer', link: '' });
+    expect(mujer?.price).toBeUndefined();
+    expect(mujer?.availability).toBeUndefined();
+  });
+
+  it('applies the search filter and limit locally', () => {
+    expect(catalog().query({ search: 'MUJER' }, 10).map(product => product.slug)).toEqual([
+      'mujer',
+      'mujer-pensante',
+    ]);
+    expect(catalog().query({}, 2)).toHaveLength(2);
+    expect(catalog().query({ category: 'lunas' }, 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,100 @@
+import seedData from '../data/catalog-seed.json';
+import type { ProductCard, ProductQuery } from './wp';
+
+// À incrémenter quand la forme de ProductCard change d'une façon que les anciens instantanés ne suivent pas.
+export const CATALOG_SNAPSHOT_VERSION = 1;
+
+export type CatalogSnapshot = {
+  version: number;
+  generatedAt: string | null;
+  source: string | null;
+  products: ProductCard[];
+};
+
+export type SeedArtwork = { title: string; slug: string; image: string };
+
+// Écrit par npm run catalog-snapshot ; absent tant que personne ne l'a lancé contre WooCommerce.
+const snapshotModules = import.meta.glob<CatalogSnapshot>('../data/catalog-snapshot.json', {
+  eager: true,
+  import: 'default',
+});
+const snapshotData: CatalogSnapshot | null = Object.values(snapshotModules)[0] ?? null;
+
+// Sans instantané, seule la liste d'aperçus historique reste : titres et images, sans produit WooCommerce
+// (identifiant 0, ni prix, ni technique, ni format : ces œuvres ne peuvent être ni achetées ni réservées).
+const seedProducts = (seed: SeedArtwork[]): ProductCard[] =>
+  seed.map(artwork => ({
+    id: 0,
+    title: artwork.title,
+    slug: artwork.slug,
+    link: '',
+    image: artwork.image,
+    imageFull: artwork.image,
+  }));
+
+const loadSnapshot = (snapshot: CatalogSnapshot | null, seed: SeedArtwork[]) => {
+  if (!snapshot) {
+    console.warn('No catalog snapshot: serving the preview seed list (run npm run catalog-snapshot)');
+    return seedProducts(seed);
+  }
+  if (snapshot.version !== CATALOG_SNAPSHOT_VERSION || !Array.isArray(snapshot.products)) {
+    console.warn(`Catalog snapshot ignored: version ${snapshot.version}, expected ${CATALOG_SNAPSHOT_VERSION}`);
+    return seedProducts(seed);
+  }
+  return snapshot.products.filter(product => product.image);
+};
+
+const matchesTerm = (terms: ProductCard['categories'], value: number | string) => {
+  const needle = String(value).trim();
+  return (terms ?? []).some(term => String(term.id) === needle || term.slug === needle);
+};
+
+// Catalogue de secours construit à partir d'un instantané (ou de rien) et de la liste d'aperçus,
+// chargé au premier appel.
+export const createSnapshotCatalog = (snapshot: CatalogSnapshot | null, seed: SeedArtwork[]) => {
+  let products: ProductCard[] | null = null;
+  const getProducts = () => (products ??= loadSnapshot(snapshot, seed));
+
+  return {
+    info: () => ({
+      kind: snapshot ? ('snapshot' as const) : ('seed' as const),
+      generatedAt: snapshot?.generatedAt ?? null,
+      source: snapshot?.source ?? null,
+      count: getProducts().length,
+    }),
+    // Mêmes filtres que l'API WooCommerce, appliqués localement.
+    query: (query: ProductQuery, limit: number) => {
+      const search = query.search?.trim().toLowerCase();
+      return getProducts()
+        .filter(
+          product =>
+            query.category == null || query.category === '' || matchesTerm(product.categories, query.category)
+        )
+        .filter(product => query.tag == null || query.tag === '' || matchesTerm(product.tags, query.tag))
+        .filter(product => !query.stockStatus || product.stockStatus === query.stockStatus)
+        .filter(
+          product =>
+            !search ||
+            product.title.toLowerCase().includes(search) ||
+            Boolean(product.description?.toLowerCase().includes(search))
+        )
+        .slice(0, limit);
+    },
+    find: (slug: string) => getProducts().find(product => product.slug === slug) ?? null,
+  };
+};
+
+const catalog = createSnapshotCatalog(snapshotData, seedData.products as SeedArtwork[]);
+
+export const getCatalogSnapshotInfo = () => catalog.info();
+
+export const createCatalogSnapshot = (products: ProductCard[], source: string): CatalogSnapshot => ({
+  version: CATALOG_SNAPSHOT_VERSION,
+  generatedAt: new Date().toISOString(),
+  source,
+  products,
+});
+
+export const querySnapshotProducts = (query: ProductQuery, limit: number) => catalog.query(query, limit);
+
+export const findSnapshotProduct = (slug: string) => catalog.find(slug);
@@ -0,0 +1,57 @@
+export type CertificateLang = 'es' | 'en';
+
+export const certificateCopy = {
+  es: {
+    eyebrow: 'My Light Art Gallery',
+    heading: 'Certificado de autenticidad',
+    numberLabel: 'N.º',
+    artist: 'Artista',
+    artwork: 'Obra',
+    medium: 'Técnica',
+    dimensions: 'Dimensiones',
+    client: 'Cliente',
+    issueDate: 'Fecha de emisión',
+    clientPending: 'Por asignar',
+    datePending: 'Por definir',
+    numberPending: 'Pendiente de emisión',
+    statement:
+      'Se certifica que esta pieza es una obra original y única, creada por Layla Lastra. La compra de la obra no transfiere los derechos de autor ni de reproducción.',
+    artistSignature: 'Firma de la artista',
+    issuer: 'Emisor',
+    verifyAt: 'Verifique este certificado en',
+    dateLocale: 'es-ES',
+    dateFormat: { day: '2-digit', month: 'long', year: 'numeric' },
+  },
+  en: {
+    eyebrow: 'My Light Art Gallery',
+    heading: 'Certificate of Authenticity',
+    numberLabel: 'No.',
+    artist: 'Artist',
+    artwork: 'Artwork',
+    medium: 'Technique',
+    dimensions: 'Dimensions',
+    client: 'Collector',
+    issueDate: 'Issue date',
+    clientPending: 'To be assigned',
+    datePending: 'To be defined',
+    numberPending: 'Pending issuance',
+    statement:
+      'This certifies that this piece is an original and unique work, created by Layla Lastra. The purchase of the artwork does not transfer copyright or reproduction rights.',
+    artistSignature: "Artist's signature",
+    issuer: 'Issuer',
+    verifyAt: 'Verify this certificate at',
+    dateLocale: 'en-US',
+    dateFormat: { month: 'long', day: 'numeric', year: 'numeric' },
+  },
+} as const satisfies Record<CertificateLang, Record<string, unknown>>;
+
+export const CERTIFICATE_ARTIST = 'Layla Lastra';
+export const CERTIFICATE_ISSUER = 'My Light Art Gallery';
+
+export const formatCertificateDate = (value: string | null | undefined, lang: CertificateLang) => {
+  const copy = certificateCopy[lang];
+  if (!value) return copy.datePending;
+  const date = new Date(`${value}T12:00:00`);
+  if (Number.isNaN(date.getTime())) return copy.datePending;
+  return new Intl.DateTimeFormat(copy.dateLocale, copy.dateFormat).format(date);
+};
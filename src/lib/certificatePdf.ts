@@ -0,0 +1,216 @@
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib';
+import QRCode from 'qrcode';
+import {
+  CERTIFICATE_ARTIST,
+  CERTIFICATE_ISSUER,
+  certificateCopy,
+  formatCertificateDate,
+  type CertificateLang,
+} from './certificateCopy';
+import type { CertificateRecord } from './certificates';
+
+type CertificatePdfOptions = {
+  lang: CertificateLang;
+  verifyUrl: string;
+  logoPng?: Uint8Array | null;
+};
+
+const ink = rgb(0.184, 0.157, 0.129);
+const muted = rgb(0.4, 0.365, 0.333);
+const line = rgb(0.55, 0.47, 0.4);
+
+// Les polices standard PDF ne couvrent que WinAnsi : on retire ce qu'elles ne savent pas dessiner.
+const encodable = (font: PDFFont, value: string) => {
+  const supported = new Set(font.getCharacterSet());
+  return [...value.normalize('NFC')]
+    .map(char => (supported.has(char.codePointAt(0) ?? 0) ? char : ''))
+    .join('');
+};
+
+const wrapText = (font: PDFFont, text: string, size: number, maxWidth: number) => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) > maxWidth && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+const drawCentered = (page: PDFPage, text: string, font: PDFFont, size: number, y: number, color = ink) => {
+  const width = font.widthOfTextAtSize(text, size);
+  page.drawText(text, { x: (page.getWidth() - width) / 2, y, size, font, color });
+};
+
+const spaced = (value: string) => value.toUpperCase().split('').join(' ');
+
+const LOGO_PATH = '/logo/MY LIGHT ART GALLERY noirLOGO.png';
+let logoCache: Promise<Uint8Array | null> | null = null;
+
+// Le dossier public/ n'est pas embarqué dans la fonction serverless : on relit alors le logo sur
+// le site configuré, jamais sur l'hôte de la requête, puisque le résultat reste en cache.
+export const loadCertificateLogo = (origin: string | null, publicDir = 'public') => {
+  logoCache ??= readFile(join(resolve(publicDir), LOGO_PATH))
+    .catch(async () => {
+      if (!origin) throw new Error('Logo missing and no site configured');
+      const response = await fetch(new URL(encodeURI(LOGO_PATH), origin));
+      if (!response.ok) throw new Error(`Logo request failed: ${response.status}`);
+      return response.arrayBuffer();
+    })
+    .then(bytes => new Uint8Array(bytes))
+    .catch(error => {
+      console.warn('COA PDF logo unavailable', error);
+      logoCache = null;
+      return null;
+    });
+  return logoCache;
+};
+
+export const renderCertificatePdf = async (
+  record: CertificateRecord,
+  { lang, verifyUrl, logoPng }: CertificatePdfOptions
+) => {
+  const copy = certificateCopy[lang];
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${copy.heading} ${record.number}`);
+  pdf.setAuthor(CERTIFICATE_ISSUER);
+  pdf.setSubject(record.title);
+  pdf.setCreationDate(new Date(record.issuedAt));
+
+  // Format Letter : la majorité des acheteurs sont au Texas.
+  const page = pdf.addPage([612, 792]);
+  const serif = await pdf.embedFont(StandardFonts.TimesRoman);
+  const sans = await pdf.embedFont(StandardFonts.Helvetica);
+  const sansBold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const margin = 54;
+  const contentWidth = page.getWidth() - margin * 2;
+
+  page.drawRectangle({
+    x: margin - 18,
+    y: margin - 18,
+    width: contentWidth + 36,
+    height: page.getHeight() - (margin - 18) * 2,
+    borderColor: line,
+    borderWidth: 1,
+  });
+
+  let y = page.getHeight() - margin - 10;
+
+  let logo: PDFImage | null = null;
+  if (logoPng) {
+    try {
+      logo = await pdf.embedPng(logoPng);
+    } catch (error) {
+      console.warn('COA PDF logo could not be embedded', error);
+    }
+  }
+  if (logo) {
+    const scaled = logo.scaleToFit(150, 70);
+    page.drawImage(logo, {
+      x: (page.getWidth() - scaled.width) / 2,
+      y: y - scaled.height,
+      width: scaled.width,
+      height: scaled.height,
+    });
+    y -= scaled.height + 22;
+  } else {
+    drawCentered(page, spaced(copy.eyebrow), sans, 8, y - 8, muted);
+    y -= 30;
+  }
+
+  drawCentered(page, encodable(serif, copy.heading.toUpperCase()), serif, 26, y - 26);
+  y -= 50;
+  drawCentered(page, `${encodable(sans, copy.numberLabel)} ${record.number}`, sansBold, 10, y);
+  y -= 42;
+
+  const rows: Array<[string, string]> = [
+    [copy.artist, CERTIFICATE_ARTIST],
+    [copy.artwork, record.title],
+    [copy.medium, record.medium ?? '—'],
+    [copy.dimensions, record.dimensions ?? '—'],
+    [copy.client, record.client],
+    [copy.issueDate, formatCertificateDate(record.issueDate, lang)],
+  ];
+  for (const [label, value] of rows) {
+    page.drawText(encodable(sans, label.toUpperCase()), {
+      x: margin,
+      y,
+      size: 8,
+      font: sans,
+      color: muted,
+    });
+    const text = encodable(serif, value);
+    const size = 13;
+    page.drawText(text, {
+      x: margin + contentWidth - serif.widthOfTextAtSize(text, size),
+      y,
+      size,
+      font: serif,
+      color: ink,
+    });
+    y -= 10;
+    page.drawLine({
+      start: { x: margin, y },
+      end: { x: margin + contentWidth, y },
+      thickness: 0.5,
+      color: line,
+      dashArray: [2, 2],
+    });
+    y -= 22;
+  }
+
+  y -= 8;
+  for (const statementLine of wrapText(serif, encodable(serif, copy.statement), 12, contentWidth)) {
+    page.drawText(statementLine, { x: margin, y, size: 12, font: serif, color: ink });
+    y -= 17;
+  }
+
+  y -= 48;
+  const columnWidth = (contentWidth - 30) / 2;
+  const signatures: Array<[string, string]> = [
+    [CERTIFICATE_ARTIST, copy.artistSignature],
+    [CERTIFICATE_ISSUER, copy.issuer],
+  ];
+  signatures.forEach(([name, label], index) => {
+    const x = margin + index * (columnWidth + 30);
+    page.drawLine({ start: { x, y }, end: { x: x + columnWidth, y }, thickness: 0.8, color: line });
+    page.drawText(name, { x, y: y - 18, size: 13, font: serif, color: ink });
+    page.drawText(encodable(sans, label.toUpperCase()), {
+      x,
+      y: y - 32,
+      size: 7.5,
+      font: sans,
+      color: muted,
+    });
+  });
+
+  const qrPng = await QRCode.toBuffer(verifyUrl, { errorCorrectionLevel: 'M', margin: 0, width: 240 });
+  const qr = await pdf.embedPng(qrPng);
+  const qrSize = 78;
+  const qrY = margin + 6;
+  page.drawImage(qr, { x: margin, y: qrY, width: qrSize, height: qrSize });
+  page.drawText(encodable(sans, copy.verifyAt.toUpperCase()), {
+    x: margin + qrSize + 14,
+    y: qrY + qrSize / 2 + 6,
+    size: 7.5,
+    font: sans,
+    color: muted,
+  });
+  page.drawText(verifyUrl.replace(/^https?:\/\/(www\.)?/, ''), {
+    x: margin + qrSize + 14,
+    y: qrY + qrSize / 2 - 10,
+    size: 9,
+    font: sansBold,
+    color: ink,
+  });
+
+  return pdf.save();
+};
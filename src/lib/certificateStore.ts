@@ -0,0 +1,254 @@
+import { mkdir } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { getEnvValue, isServerlessRuntime } from './env';
+import { createJsonFile, readRecordList } from './jsonFileStore';
+import { getKvClient, isKvConfigured, withKvLock, type KvClient } from './kv';
+import { getProductMeta, getProductMetaEntries, setProductMeta } from './wp';
+import type { CertificateRecord } from './certificates';
+
+export interface CertificateStore {
+  list(): Promise<CertificateRecord[]>;
+  get(number: string): Promise<CertificateRecord | null>;
+  // Réserve le prochain numéro de série ; deux appels ne renvoient jamais le même.
+  nextSerial(): Promise<number>;
+  // Lève CertificateSerialConflictError si le numéro a été pris entre-temps : l'appelant en réserve un autre.
+  insert(record: CertificateRecord): Promise<void>;
+  update(record: CertificateRecord): Promise<void>;
+}
+
+export class CertificateSerialConflictError extends Error {
+  constructor(readonly serial: number) {
+    super(`Certificate serial ${serial} is already taken`);
+    this.name = 'CertificateSerialConflictError';
+  }
+}
+
+export const createMemoryCertificateStore = (
+  initial: CertificateRecord[] = []
+): CertificateStore => {
+  const records = new Map(initial.map(record => [record.number, record]));
+  let lastSerial = Math.max(0, ...initial.map(record => record.serial));
+
+  return {
+    list: async () => [...records.values()],
+    get: async number => records.get(number) ?? null,
+    nextSerial: async () => (lastSerial += 1),
+    insert: async record => {
+      if (records.has(record.number)) throw new Error(`Duplicate certificate ${record.number}`);
+      records.set(record.number, record);
+    },
+    update: async record => {
+      if (!records.has(record.number)) throw new Error(`Unknown certificate ${record.number}`);
+      records.set(record.number, record);
+    },
+  };
+};
+
+type JsonFileData = { version: 1; lastSerial: number; certificates: CertificateRecord[] };
+
+export const createJsonFileCertificateStore = (path: string): CertificateStore => {
+  const { read, mutate } = createJsonFile<JsonFileData>(path, raw => {
+    const certificates = readRecordList<CertificateRecord>(raw, 'certificates');
+    const lastSerial = Number((raw as Partial<JsonFileData> | null)?.lastSerial) || 0;
+    return {
+      version: 1,
+      lastSerial: Math.max(lastSerial, ...certificates.map(record => record.serial)),
+      certificates,
+    };
+  });
+
+  return {
+    list: async () => (await read()).certificates,
+    get: async number =>
+      (await read()).certificates.find(record => record.number === number) ?? null,
+    nextSerial: () => mutate(data => (data.lastSerial += 1)),
+    insert: record =>
+      mutate(data => {
+        if (data.certificates.some(existing => existing.number === record.number)) {
+          throw new Error(`Duplicate certificate ${record.number}`);
+        }
+        data.certificates.push(record);
+      }),
+    update: record =>
+      mutate(data => {
+        const index = data.certificates.findIndex(existing => existing.number === record.number);
+        if (index === -1) throw new Error(`Unknown certificate ${record.number}`);
+        data.certificates[index] = record;
+      }),
+  };
+};
+
+type SqliteDatabase = {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): Record<string, unknown> | undefined;
+    all(...params: unknown[]): Array<Record<string, unknown>>;
+  };
+};
+
+// node:sqlite est disponible à partir de Node 22.5 ; chargé à la demande pour ne
+// pas casser les runtimes plus anciens qui n'utilisent pas cet adaptateur.
+export const createSqliteCertificateStore = (path: string): CertificateStore => {
+  let dbPromise: Promise<SqliteDatabase> | null = null;
+
+  const open = () => {
+    dbPromise ??= (async () => {
+      const filePath = resolve(path);
+      await mkdir(dirname(filePath), { recursive: true });
+      const { DatabaseSync } = (await import('node:sqlite')) as unknown as {
+        DatabaseSync: new (file: string) => SqliteDatabase;
+      };
+      const db = new DatabaseSync(filePath);
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS certificates (
+          number TEXT PRIMARY KEY,
+          serial INTEGER NOT NULL UNIQUE,
+          record TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS certificate_serials (
+          id INTEGER PRIMARY KEY AUTOINCREMENT
+        );
+      `);
+      return db;
+    })();
+    return dbPromise;
+  };
+
+  const parse = (row?: Record<string, unknown>) =>
+    row ? (JSON.parse(String(row.record)) as CertificateRecord) : null;
+
+  return {
+    list: async () => {
+      const db = await open();
+      return db
+        .prepare('SELECT record FROM certificates ORDER BY serial')
+        .all()
+        .map(row => parse(row) as CertificateRecord);
+    },
+    get: async number => {
+      const db = await open();
+      return parse(db.prepare('SELECT record FROM certificates WHERE number = ?').get(number));
+    },
+    nextSerial: async () => {
+      const db = await open();
+      db.prepare('INSERT INTO certificate_serials DEFAULT VALUES').run();
+      const row = db.prepare('SELECT last_insert_rowid() AS id').get();
+      return Number(row?.id);
+    },
+    insert: async record => {
+      const db = await open();
+      db.prepare('INSERT INTO certificates (number, serial, record) VALUES (?, ?, ?)').run(
+        record.number,
+        record.serial,
+        JSON.stringify(record)
+      );
+    },
+    update: async record => {
+      const db = await open();
+      db.prepare('UPDATE certificates SET record = ? WHERE number = ?').run(
+        JSON.stringify(record),
+        record.number
+      );
+    },
+  };
+};
+
+const WOO_META_KEY = '_mlag_certificates';
+
+const asRecords = (value: unknown) =>
+  Array.isArray(value) ? (value as CertificateRecord[]) : [];
+
+// Compteur partagé, jamais en dessous du plus grand numéro déjà présent dans WooCommerce.
+const NEXT_SERIAL = `local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+if current < tonumber(ARGV[1]) then redis.call('SET', KEYS[1], ARGV[1]) end
+return redis.call('INCR', KEYS[1])`;
+
+// Les certificats vivent dans une méta de chaque produit WooCommerce, réécrite en entier à
+// chaque modification. Avec KV, un verrou par produit sérialise ces écritures et le numéro de
+// série vient d'un compteur atomique. Sans KV, une seule instance doit utiliser ce registre.
+export const createWooCommerceCertificateStore = (
+  kv: KvClient | null = null,
+  prefix = 'mlag:coa:'
+): CertificateStore => {
+  const list = async () =>
+    (await getProductMetaEntries(WOO_META_KEY)).flatMap(entry => asRecords(entry.value));
+
+  const requireProductId = (record: CertificateRecord) => {
+    if (!record.productId) {
+      throw new Error('WooCommerce certificate store requires a product id');
+    }
+    return record.productId;
+  };
+
+  // Lecture, modification et réécriture de la méta d'un produit sans écriture concurrente.
+  const rewrite = async (
+    productId: number,
+    change: (records: CertificateRecord[]) => CertificateRecord[]
+  ) => {
+    const run = async () => {
+      const existing = asRecords(await getProductMeta(productId, WOO_META_KEY));
+      await setProductMeta(productId, WOO_META_KEY, change(existing));
+    };
+    if (kv) await withKvLock(kv, `${prefix}product:${productId}`, run);
+    else await run();
+  };
+
+  let reservedSerial = 0;
+
+  return {
+    list,
+    get: async number => (await list()).find(record => record.number === number) ?? null,
+    nextSerial: async () => {
+      const known = Math.max(0, ...(await list()).map(record => record.serial));
+      if (kv) return Number(await kv.command('EVAL', NEXT_SERIAL, 1, `${prefix}serial`, known));
+      reservedSerial = Math.max(reservedSerial, known) + 1;
+      return reservedSerial;
+    },
+    insert: async record => {
+      const productId = requireProductId(record);
+      if ((await list()).some(existing => existing.serial === record.serial)) {
+        throw new CertificateSerialConflictError(record.serial);
+      }
+      await rewrite(productId, existing => [...existing, record]);
+    },
+    update: async record => {
+      const productId = requireProductId(record);
+      await rewrite(productId, existing =>
+        existing.map(candidate => (candidate.number === record.number ? record : candidate))
+      );
+    },
+  };
+};
+
+let certificateStore: CertificateStore | null = null;
+
+export const getCertificateStore = () => {
+  if (certificateStore) return certificateStore;
+  const kind = (getEnvValue(['COA_STORE']) ?? 'file').trim().toLowerCase();
+  const path = getEnvValue(['COA_STORE_PATH']);
+
+  switch (kind) {
+    case 'memory':
+      certificateStore = createMemoryCertificateStore();
+      break;
+    case 'sqlite':
+      certificateStore = createSqliteCertificateStore(path ?? 'data/certificates.sqlite');
+      break;
+    case 'woocommerce':
+      // Sur Vercel, plusieurs instances réécrivent les mêmes métas : le verrou KV est indispensable.
+      if (!isKvConfigured() && isServerlessRuntime()) {
+        throw new Error('COA_STORE=woocommerce requires KV_REST_API_URL and KV_REST_API_TOKEN on Vercel');
+      }
+      certificateStore = createWooCommerceCertificateStore(
+        isKvConfigured() ? getKvClient('COA_STORE') : null
+      );
+      break;
+    case 'file':
+      certificateStore = createJsonFileCertificateStore(path ?? 'data/certificates.json');
+      break;
+    default:
+      throw new Error(`Unknown COA_STORE "${kind}"`);
+  }
+  return certificateStore;
+};
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCertificateStore, createWooCommerceCertificateStore } from './certificateStore';
+import {
+  findLeadCertificate,
+  issueCertificate,
+  voidCertificate,
+  type CertificateInput,
+} from './certificates';
+import { getProductMeta, getProductMetaEntries, setProductMeta } from './wp';
+import { createFakeKvClient } from '../test/fakeKv';
+
+// Métas WooCommerce en mémoire ; chaque appel laisse passer les autres requêtes, comme le réseau.
+// L'écriture est plus lente que la lecture : sans verrou, une lecture périmée écraserait une écriture.
+const meta = new Map<number, unknown>();
+const tick = (count = 1) => new Promise(resolve => setTimeout(resolve, count));
+
+vi.mock('./wp', async importOriginal => ({
+  ...(await importOriginal<typeof import('./wp')>()),
+  getProductMeta: vi.fn(),
+  getProductMetaEntries: vi.fn(),
+  setProductMeta: vi.fn(),
+}));
+
+const input = (productId: number, client: string): CertificateInput => ({
+  productId,
+  productSlug: productId === 1 ? 'tormenta' : 'danza',
+  title: productId === 1 ? 'Tormenta' : 'Danza',
+  client,
+  issueDate: '2026-10-18',
+});
+
+beforeEach(() => {
+  vi.stubEnv('COA_SECRET', 'test-secret');
+  meta.clear();
+  vi.mocked(getProductMeta).mockImplementation(async productId => {
+    await tick();
+    return meta.get(productId);
+  });
+  vi.mocked(getProductMetaEntries).mockImplementation(async () => {
+    await tick();
+    return [...meta].map(([productId, value]) => ({ productId, value }));
+  });
+  vi.mocked(setProductMeta).mockImplementation(async (productId, _key, value) => {
+    await tick(5);
+    meta.set(productId, value);
+  });
+});
+
+describe('WooCommerce certificate store', () => {
+  it.each([
+    ['different artworks', 1, 2],
+    ['the same artwork', 1, 1],
+  ])('keeps concurrent issues on %s from two instances', async (_label, firstId, secondId) => {
+    // Deux instances qui partagent seulement KV et WooCommerce.
+    const kv = createFakeKvClient();
+    const [first, second] = await Promise.all([
+      issueCertificate(input(firstId, 'Ana'), createWooCommerceCertificateStore(kv)),
+      issueCertificate(input(secondId, 'Luis'), createWooCommerceCertificateStore(kv)),
+    ]);
+    expect(new Set([first.serial, second.serial]).size).toBe(2);
+
+    const stored = await createWooCommerceCertificateStore(kv).list();
+    expect(stored.map(record => record.client).sort()).toEqual(['Ana', 'Luis']);
+  });
+
+  it('does not lose a certificate issued while another one of the artwork is voided', async () => {
+    const kv = createFakeKvClient();
+    const issued = await issueCertificate(input(1, 'Ana'), createWooCommerceCertificateStore(kv));
+    const [, reissued] = await Promise.all([
+      voidCertificate(issued.number, 'Cliente equivocado', createWooCommerceCertificateStore(kv)),
+      issueCertificate(input(1, 'Luis'), createWooCommerceCertificateStore(kv)),
+    ]);
+
+    const stored = await createWooCommerceCertificateStore(kv).list();
+    expect(stored.map(record => [record.number, record.status])).toEqual(
+      expect.arrayContaining([
+        [issued.number, 'void'],
+        [reissued.number, 'issued'],
+      ])
+    );
+    expect(stored).toHaveLength(2);
+  });
+
+  it('continues the series after the highest stored serial', async () => {
+    const store = createWooCommerceCertificateStore();
+    await issueCertificate(input(1, 'Ana'), store);
+    const next = await issueCertificate(input(2, 'Luis'), createWooCommerceCertificateStore());
+    expect(next.serial).toBe(2);
+  });
+});
+
+describe('lead certificates', () => {
+  it('finds the certificate already issued for a sale, ignoring voided ones', async () => {
+    const store = createMemoryCertificateStore();
+    const voided = await issueCertificate({ ...input(1, 'Ana'), leadId: 'lead-1' }, store);
+    await voidCertificate(voided.number, 'Cliente equivocado', store);
+    expect(await findLeadCertificate('lead-1', store)).toBeNull();
+
+    const issued = await issueCertificate({ ...input(1, 'Ana Torres'), leadId: 'lead-1' }, store);
+    await issueCertificate(input(2, 'Luis'), store);
+    expect(await findLeadCertificate('lead-1', store)).toMatchObject({ number: issued.number });
+  });
+});
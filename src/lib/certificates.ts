@@ -0,0 +1,260 @@
+import { createHmac } from 'node:crypto';
+import { getEnvValue } from './env';
+import {
+  CertificateSerialConflictError,
+  getCertificateStore,
+  type CertificateStore,
+} from './certificateStore';
+import { formatDimensions } from './dimensions';
+import { getProductBySlug, localizeProduct } from './wp';
+
+export type CertificateStatus = 'issued' | 'void';
+
+export type CertificateRecord = {
+  number: string;
+  serial: number;
+  productId: number | null;
+  productSlug: string;
+  title: string;
+  medium: string | null;
+  dimensions: string | null;
+  client: string;
+  issueDate: string;
+  issuedAt: string;
+  issuedBy: string | null;
+  status: CertificateStatus;
+  voidedAt: string | null;
+  voidReason: string | null;
+  signature: string;
+  // Demande (vente) pour laquelle le certificat a été émis ; absent des certificats plus anciens.
+  leadId?: string | null;
+};
+
+export type CertificateInput = {
+  productId?: number | null;
+  productSlug: string;
+  title: string;
+  medium?: string | null;
+  dimensions?: string | null;
+  client: string;
+  issueDate?: string | null;
+  issuedBy?: string | null;
+  leadId?: string | null;
+};
+
+export class CertificateError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = 'CertificateError';
+  }
+}
+
+const getSecret = () => {
+  const secret = getEnvValue(['COA_SECRET']);
+  if (!secret) {
+    throw new CertificateError('COA_SECRET is not configured', 503);
+  }
+  return secret;
+};
+
+const hmac = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('hex');
+
+const normalizeCertificateToken = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '')
+    .toUpperCase();
+
+const isIsoDate = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(`${value}T12:00:00Z`).getTime());
+
+// Les 4 derniers caractères du numéro dépendent du secret : un numéro inventé
+// ne passe pas la vérification même s'il respecte le format.
+const buildCertificateNumber = (issueDate: string, productSlug: string, serial: number, secret: string) => {
+  const datePart = issueDate.replace(/-/g, '');
+  const token = (normalizeCertificateToken(productSlug).slice(0, 6) || 'ART').padEnd(3, 'X');
+  const serialPart = String(serial).padStart(5, '0');
+  const base = `COA-${datePart}-${token}-${serialPart}`;
+  const check = hmac(base, secret).slice(0, 4).toUpperCase();
+  return `${base}-${check}`;
+};
+
+const signaturePayload = (record: Omit<CertificateRecord, 'signature'>) =>
+  JSON.stringify([
+    record.number,
+    record.serial,
+    record.productId,
+    record.productSlug,
+    record.title,
+    record.medium,
+    record.dimensions,
+    record.client,
+    record.issueDate,
+    record.issuedAt,
+  ]);
+
+export const normalizeCertificateNumber = (value: string) => value.trim().toUpperCase();
+
+export const isCertificateNumberFormat = (value: string) =>
+  /^COA-\d{8}-[A-Z0-9]{3,6}-\d{5,}-[A-F0-9]{4}$/.test(normalizeCertificateNumber(value));
+
+export const verifyCertificateRecord = (record: CertificateRecord) => {
+  const secret = getSecret();
+  const { signature, ...rest } = record;
+  const expectedNumber = buildCertificateNumber(
+    record.issueDate,
+    record.productSlug,
+    record.serial,
+    secret
+  );
+  return expectedNumber === record.number && hmac(signaturePayload(rest), secret) === signature;
+};
+
+const SERIAL_ATTEMPTS = 3;
+
+export const issueCertificate = async (
+  input: CertificateInput,
+  store: CertificateStore = getCertificateStore()
+) => {
+  const secret = getSecret();
+  const client = input.client?.trim();
+  const productSlug = input.productSlug?.trim();
+  const title = input.title?.trim();
+  if (!client) throw new CertificateError('Client name is required');
+  if (!productSlug || !title) throw new CertificateError('Artwork is required');
+
+  const issueDate = input.issueDate?.trim() || new Date().toISOString().slice(0, 10);
+  if (!isIsoDate(issueDate)) throw new CertificateError('Invalid issue date');
+
+  // Un numéro pris par une autre instance entre la réservation et l'écriture : on en réserve un autre.
+  for (let attempt = 0; attempt < SERIAL_ATTEMPTS; attempt += 1) {
+    const serial = await store.nextSerial();
+    const unsigned: Omit<CertificateRecord, 'signature'> = {
+      number: buildCertificateNumber(issueDate, productSlug, serial, secret),
+      serial,
+      productId: input.productId ?? null,
+      productSlug,
+      title,
+      medium: input.medium?.trim() || null,
+      dimensions: input.dimensions?.trim() || null,
+      client,
+      issueDate,
+      issuedAt: new Date().toISOString(),
+      issuedBy: input.issuedBy ?? null,
+      status: 'issued',
+      voidedAt: null,
+      voidReason: null,
+    };
+    const record: CertificateRecord = {
+      ...unsigned,
+      signature: hmac(signaturePayload(unsigned), secret),
+      leadId: input.leadId ?? null,
+    };
+
+    try {
+      await store.insert(record);
+      return record;
+    } catch (error) {
+      if (!(error instanceof CertificateSerialConflictError)) throw error;
+      console.warn('Certificate serial taken, retrying', error.serial);
+    }
+  }
+  throw new CertificateError('Certificate number could not be reserved', 409);
+};
+
+export type ArtworkCertificateInput = Omit<CertificateInput, 'title'> & {
+  title?: string | null;
+  lang?: 'es' | 'en';
+};
+
+// Les données de l'œuvre viennent de WooCommerce quand elle existe, pas du navigateur.
+export const issueArtworkCertificate = async (
+  input: ArtworkCertificateInput,
+  store: CertificateStore = getCertificateStore()
+) => {
+  const lang = input.lang === 'en' ? 'en' : 'es';
+  const found = await getProductBySlug(input.productSlug);
+  const product = found ? await localizeProduct(found, lang) : null;
+  return issueCertificate(
+    {
+      productId: product?.id ?? input.productId ?? null,
+      productSlug: product?.slug ?? input.productSlug,
+      title: product?.title ?? input.title ?? '',
+      medium: product?.medium ?? input.medium,
+      dimensions: formatDimensions(product?.size, lang) ?? product?.dimensions ?? input.dimensions,
+      client: input.client,
+      issueDate: input.issueDate,
+      issuedBy: input.issuedBy,
+      leadId: input.leadId,
+    },
+    store
+  );
+};
+
+// Certificat déjà émis pour une vente, même si son rattachement à la demande a échoué.
+export const findLeadCertificate = async (
+  leadId: string,
+  store: CertificateStore = getCertificateStore()
+) =>
+  (await store.list()).find(record => record.leadId === leadId && record.status === 'issued') ?? null;
+
+export const getCertificate = async (
+  number: string,
+  store: CertificateStore = getCertificateStore()
+) => store.get(normalizeCertificateNumber(number));
+
+export const listCertificates = async (
+  filters: { productSlug?: string | null; status?: CertificateStatus | null } = {},
+  store: CertificateStore = getCertificateStore()
+) => {
+  const records = await store.list();
+  return records
+    .filter(record => !filters.productSlug || record.productSlug === filters.productSlug)
+    .filter(record => !filters.status || record.status === filters.status)
+    .sort((a, b) => b.serial - a.serial);
+};
+
+export const voidCertificate = async (
+  number: string,
+  reason?: string | null,
+  store: CertificateStore = getCertificateStore()
+) => {
+  const record = await store.get(normalizeCertificateNumber(number));
+  if (!record) throw new CertificateError('Certificate not found', 404);
+  if (record.status === 'void') return record;
+
+  const voided: CertificateRecord = {
+    ...record,
+    status: 'void',
+    voidedAt: new Date().toISOString(),
+    voidReason: reason?.trim() || null,
+  };
+  await store.update(voided);
+  return voided;
+};
+
+export type CertificateLookup =
+  | { state: 'valid'; record: CertificateRecord }
+  | { state: 'void'; record: CertificateRecord }
+  | { state: 'not-found'; record: null };
+
+export const lookupCertificate = async (
+  number: string,
+  store: CertificateStore = getCertificateStore()
+): Promise<CertificateLookup> => {
+  if (!isCertificateNumberFormat(number)) return { state: 'not-found', record: null };
+  const record = await store.get(normalizeCertificateNumber(number));
+  // Un enregistrement dont la signature ne correspond pas est traité comme inexistant.
+  if (!record || !verifyCertificateRecord(record)) return { state: 'not-found', record: null };
+  return record.status === 'void' ? { state: 'void', record } : { state: 'valid', record };
+};
+
+export const getCertificateVerifyPath = (number: string, lang: 'es' | 'en' = 'es') =>
+  lang === 'en'
+    ? `/en/verify/${encodeURIComponent(number)}`
+    : `/verificar/${encodeURIComponent(number)}`;
@@ -0,0 +1,159 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AVAILABILITY_META_KEY } from './availability';
+import { CheckoutError, completeCheckout, createCheckout } from './checkout';
+import {
+  createJsonFileCheckoutStore,
+  createKvCheckoutStore,
+  createMemoryCheckoutStore,
+  type CheckoutStore,
+} from './checkoutStore';
+import {
+  createFakeProvider,
+  FAKE_SIGNATURE_HEADER,
+  PaymentSignatureError,
+  signFakePaymentEvent,
+} from './paymentProviders';
+import { getProductBySlug, setProductMeta, type ProductCard } from './wp';
+import { createFakeKvClient } from '../test/fakeKv';
+
+vi.mock('./wp', async importOriginal => ({
+  ...(await importOriginal<typeof import('./wp')>()),
+  getProductBySlug: vi.fn(),
+  setProductMeta: vi.fn(),
+}));
+
+vi.mock('./catalogCache', async importOriginal => ({
+  ...(await importOriginal<typeof import('./catalogCache')>()),
+  purgeCacheTags: vi.fn(async () => []),
+}));
+
+const SECRET = 'test-secret';
+const provider = createFakeProvider(SECRET);
+
+const artwork: ProductCard = {
+  id: 42,
+  title: 'Tormenta',
+  slug: 'tormenta',
+  link: 'https://wp.example/producto/tormenta/',
+  price: 1200,
+  availability: 'available',
+};
+
+const request = { productSlug: 'tormenta', mode: 'buy', lang: 'es', origin: 'https://example.test' } as const;
+
+// Notification signée telle que /api/checkout/fake l'envoie au webhook.
+const webhook = (type: string, orderId: string, secret = SECRET) => {
+  const body = JSON.stringify({ type, orderId, sessionId: 'fake_session', customerEmail: 'buyer@example.com' });
+  return provider.parseCallback(body, new Headers({ [FAKE_SIGNATURE_HEADER]: signFakePaymentEvent(body, secret) }));
+};
+
+const tempDir = await mkdtemp(join(tmpdir(), 'mlag-checkout-'));
+afterAll(() => rm(tempDir, { recursive: true, force: true }));
+
+describe.each([
+  ['memory', () => createMemoryCheckoutStore()],
+  ['file', () => createJsonFileCheckoutStore(join(tempDir, `orders-${Date.now()}-${Math.random()}.json`))],
+  ['kv', () => createKvCheckoutStore(createFakeKvClient())],
+])('checkout flow with the %s store', (_name, createStore: () => CheckoutStore) => {
+  let store: CheckoutStore;
+  const notifier = { send: vi.fn(async () => undefined) };
+
+  beforeEach(() => {
+    vi.useRealTimers();
+    vi.mocked(getProductBySlug).mockResolvedValue(artwork);
+    vi.mocked(setProductMeta).mockReset();
+    notifier.send.mockClear();
+    store = createStore();
+  });
+
+  it('claims the artwork, then confirms it from the signed webhook', async () => {
+    const { order, redirectUrl } = await createCheckout(request, { store, provider });
+    expect(order).toMatchObject({ status: 'pending', productId: 42, amount: 120000, provider: 'fake' });
+    expect(redirectUrl).toContain('/api/checkout/fake?');
+
+    await expect(createCheckout(request, { store, provider })).rejects.toMatchObject({
+      constructor: CheckoutError,
+      status: 409,
+    });
+
+    const event = webhook('paid', order.id);
+    expect(event).toMatchObject({ type: 'paid', orderId: order.id, customerEmail: 'buyer@example.com' });
+    const paid = await completeCheckout(event!, { store, notifier });
+    expect(paid.status).toBe('paid');
+    expect(paid.wooSyncedAt).not.toBeNull();
+    expect(setProductMeta).toHaveBeenCalledWith(42, AVAILABILITY_META_KEY, 'sold');
+    expect(notifier.send).toHaveBeenCalledWith(expect.objectContaining({ event: 'checkout.buy' }));
+
+    // Le prestataire renvoie la notification : rien n'est refait.
+    await completeCheckout(event!, { store, notifier });
+    expect(setProductMeta).toHaveBeenCalledTimes(1);
+    expect(notifier.send).toHaveBeenCalledTimes(1);
+    expect(await store.get(order.id)).toMatchObject({ status: 'paid' });
+  });
+
+  it('releases the artwork when the payment session expires', async () => {
+    const { order } = await createCheckout(request, { store, provider });
+    const expired = await completeCheckout(webhook('expired', order.id)!, { store, notifier });
+    expect(expired.status).toBe('expired');
+    expect(setProductMeta).not.toHaveBeenCalled();
+
+    const retry = await createCheckout(request, { store, provider });
+    expect(retry.order.status).toBe('pending');
+  });
+
+  it('flags a payment that arrives after another order took the artwork', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { order: late } = await createCheckout(request, { store, provider });
+    vi.setSystemTime(Date.now() + 36 * 60 * 1000);
+    const { order: rival } = await createCheckout(request, { store, provider });
+    await completeCheckout(webhook('paid', rival.id)!, { store, notifier });
+
+    const conflict = await completeCheckout(webhook('paid', late.id)!, { store, notifier });
+    expect(conflict.status).toBe('conflict');
+    expect(setProductMeta).toHaveBeenCalledTimes(1);
+    expect(notifier.send).toHaveBeenLastCalledWith(expect.objectContaining({ event: 'checkout.conflict' }));
+  });
+});
+
+describe('KV checkout store', () => {
+  beforeEach(() => {
+    vi.mocked(getProductBySlug).mockResolvedValue(artwork);
+  });
+
+  it('lets only one of two instances claim the same artwork', async () => {
+    const kv = createFakeKvClient();
+    const results = await Promise.allSettled([
+      createCheckout(request, { store: createKvCheckoutStore(kv), provider }),
+      createCheckout(request, { store: createKvCheckoutStore(kv), provider }),
+    ]);
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')?.reason).toMatchObject({ status: 409 });
+    expect(await createKvCheckoutStore(kv).list()).toHaveLength(1);
+  });
+
+  it('frees the artwork once the blocking order is no longer paid or pending', async () => {
+    const kv = createFakeKvClient();
+    const store = createKvCheckoutStore(kv);
+    const { order } = await createCheckout(request, { store, provider });
+    const other = createKvCheckoutStore(kv);
+    await store.update({ ...order, status: 'paid' });
+    await expect(createCheckout(request, { store: other, provider })).rejects.toMatchObject({ status: 409 });
+
+    await store.update({ ...order, status: 'failed' });
+    const retry = await createCheckout(request, { store: other, provider });
+    expect(retry.order.status).toBe('pending');
+  });
+});
+
+describe('fake payment provider', () => {
+  it('rejects a callback signed with another secret', () => {
+    expect(() => webhook('paid', 'order-1', 'other-secret')).toThrow(PaymentSignatureError);
+  });
+
+  it('ignores authentic events it does not understand', () => {
+    expect(webhook('refunded', 'order-1')).toBeNull();
+  });
+});
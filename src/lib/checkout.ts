@@ -0,0 +1,432 @@
+import { randomUUID } from 'node:crypto';
+import type { APIContext } from 'astro';
+import { AVAILABILITY_META_KEY } from './availability';
+import { parseContentLang, type ContentLang } from './artworkTranslations';
+import { purgeCacheTags } from './catalogCache';
+import { getCheckoutStore, type CheckoutStore } from './checkoutStore';
+import { getEnvValue } from './env';
+import { json, readJsonBody } from './http';
+import { getNotifier, type Notifier } from './notifier';
+import {
+  getPaymentProvider,
+  PaymentSignatureError,
+  type PaymentEvent,
+  type PaymentProvider,
+} from './paymentProviders';
+import {
+  describeQuote,
+  parseQuoteDestination,
+  QuoteError,
+  quoteProduct,
+  translateQuoteError,
+  type ArtworkQuote,
+  type QuoteDestination,
+} from './quote';
+import { getCanonicalArtworkPath } from './slugResolver';
+import {
+  CACHE_TAGS,
+  getProductBySlug,
+  localizeProduct,
+  setProductMeta,
+  type ProductCard,
+} from './wp';
+
+export type CheckoutMode = 'reserve' | 'buy';
+
+export const CHECKOUT_MODES: CheckoutMode[] = ['reserve', 'buy'];
+
+export type OrderStatus = 'pending' | 'paid' | 'failed' | 'expired' | 'conflict';
+
+export type CheckoutOrder = {
+  id: string;
+  mode: CheckoutMode;
+  status: OrderStatus;
+  productId: number;
+  productSlug: string;
+  productTitle: string;
+  // Libellé affiché par le prestataire sur la page de paiement.
+  description: string;
+  // Montant en cents ; pour une réservation, seulement l'acompte.
+  amount: number;
+  price: number;
+  // Devis taxes et livraison ; un achat avec devis complet débite ce total.
+  quote: ArtworkQuote | null;
+  currency: 'usd';
+  lang: ContentLang;
+  provider: string;
+  providerSessionId: string | null;
+  customerEmail: string | null;
+  customerName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  // Fin du blocage de l'œuvre tant que le paiement n'est pas confirmé.
+  expiresAt: string;
+  paidAt: string | null;
+  wooSyncedAt: string | null;
+};
+
+export class CheckoutError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+const DEFAULT_DEPOSIT_PERCENT = 10;
+const DEFAULT_HOLD_MS = 35 * 60 * 1000;
+
+const readPositiveNumber = (key: string, fallback: number) => {
+  const value = Number(getEnvValue([key]));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const getDepositPercent = () =>
+  Math.min(readPositiveNumber('CHECKOUT_DEPOSIT_PERCENT', DEFAULT_DEPOSIT_PERCENT), 100);
+
+const getHoldMs = (provider: PaymentProvider) =>
+  Math.max(readPositiveNumber('CHECKOUT_HOLD_MS', DEFAULT_HOLD_MS), provider.minHoldMs);
+
+export const isCheckoutEnabled = () => {
+  try {
+    // Sans stockage partagé des commandes, le bouton n'est pas proposé.
+    return getPaymentProvider() !== null && getCheckoutStore() !== null;
+  } catch (error) {
+    console.warn('Checkout misconfigured', error);
+    return false;
+  }
+};
+
+export const canCheckout = (product: Pick<ProductCard, 'availability' | 'price'>) =>
+  (product.availability ?? 'available') === 'available' && Boolean(product.price && product.price > 0);
+
+export const getCheckoutAmount = (price: number, mode: CheckoutMode) => {
+  const cents = Math.round(price * 100);
+  return mode === 'buy' ? cents : Math.max(Math.round((cents * getDepositPercent()) / 100), 1);
+};
+
+const describeOrder = (
+  mode: CheckoutMode,
+  title: string,
+  lang: ContentLang,
+  quote: ArtworkQuote | null
+) => {
+  if (mode === 'reserve') {
+    return lang === 'en' ? `Reservation deposit: ${title}` : `Anticipo de reserva: ${title}`;
+  }
+  if (quote?.total == null) return title;
+  return lang === 'en'
+    ? `${title} (crating, shipping and taxes included)`
+    : `${title} (embalaje, envío e impuestos incluidos)`;
+};
+
+const isExpired = (order: CheckoutOrder, now: number) => Date.parse(order.expiresAt) <= now;
+
+// Une œuvre est bloquée par un paiement confirmé ou par une session encore ouverte.
+const blocksProduct = (productId: number, now: number) => (order: CheckoutOrder) =>
+  order.productId === productId &&
+  (order.status === 'paid' || (order.status === 'pending' && !isExpired(order, now)));
+
+export type CheckoutRequest = {
+  productSlug: string;
+  mode: CheckoutMode;
+  lang: ContentLang;
+  customerEmail?: string | null;
+  destination?: QuoteDestination | null;
+  // URL absolue de la page de l'œuvre, pour les retours du prestataire.
+  origin: string;
+};
+
+export type CheckoutResult = { order: CheckoutOrder; redirectUrl: string };
+
+export const createCheckout = async (
+  input: CheckoutRequest,
+  options: { store?: CheckoutStore; provider?: PaymentProvider | null } = {}
+): Promise<CheckoutResult> => {
+  const provider = options.provider === undefined ? getPaymentProvider() : options.provider;
+  if (!provider) throw new CheckoutError('Checkout is not available', 503);
+  const store = options.store ?? getCheckoutStore();
+
+  // Prix, titre et disponibilité viennent de WooCommerce, jamais du navigateur.
+  const product = await getProductBySlug(input.productSlug);
+  if (!product) throw new CheckoutError('Artwork not found', 404);
+  if (!canCheckout(product)) throw new CheckoutError('Artwork is not available', 409);
+  const { title } = await localizeProduct(product, input.lang);
+  const quote = input.destination ? quoteProduct(product, input.destination) : null;
+
+  const now = Date.now();
+  const createdAt = new Date(now).toISOString();
+  const order: CheckoutOrder = {
+    id: randomUUID(),
+    mode: input.mode,
+    status: 'pending',
+    productId: product.id,
+    productSlug: product.slug,
+    productTitle: title,
+    description: describeOrder(input.mode, title, input.lang, quote),
+    amount:
+      input.mode === 'buy' && quote?.total != null
+        ? quote.total
+        : getCheckoutAmount(product.price as number, input.mode),
+    price: product.price as number,
+    quote,
+    currency: 'usd',
+    lang: input.lang,
+    provider: provider.name,
+    providerSessionId: null,
+    customerEmail: input.customerEmail ?? null,
+    customerName: null,
+    createdAt,
+    updatedAt: createdAt,
+    expiresAt: new Date(now + getHoldMs(provider)).toISOString(),
+    paidAt: null,
+    wooSyncedAt: null,
+  };
+
+  const blocking = await store.claim(order, blocksProduct(product.id, now));
+  if (blocking) throw new CheckoutError('Artwork is already being purchased', 409);
+
+  const artworkUrl = new URL(getCanonicalArtworkPath(product, input.lang), input.origin);
+  const returnUrl = (status: 'success' | 'cancelled') => {
+    const url = new URL(artworkUrl);
+    url.searchParams.set('checkout', status);
+    url.searchParams.set('order', order.id);
+    return url.href;
+  };
+
+  try {
+    const session = await provider.createSession(order, {
+      successUrl: returnUrl('success'),
+      cancelUrl: returnUrl('cancelled'),
+    });
+    const started: CheckoutOrder = {
+      ...order,
+      providerSessionId: session.sessionId,
+      updatedAt: new Date().toISOString(),
+    };
+    await store.update(started);
+    return { order: started, redirectUrl: session.redirectUrl };
+  } catch (error) {
+    // Sans session de paiement, la réservation ne doit pas bloquer l'œuvre.
+    await store
+      .update({ ...order, status: 'failed', updatedAt: new Date().toISOString() })
+      .catch(() => undefined);
+    console.warn('Checkout session creation failed', order.id, error);
+    throw new CheckoutError('Payment could not be started', 502);
+  }
+};
+
+export const getCheckoutOrder = async (id: string, store: CheckoutStore = getCheckoutStore()) =>
+  store.get(id);
+
+const buildOrderNotification = (order: CheckoutOrder) => {
+  const action = order.mode === 'buy' ? 'Artwork sold' : 'Artwork reserved';
+  const lines = [
+    `Artwork: ${order.productTitle} (${order.productSlug}, #${order.productId})`,
+    `Mode: ${order.mode}`,
+    `Amount paid: ${(order.amount / 100).toFixed(2)} ${order.currency.toUpperCase()}`,
+    `Price: ${order.price.toFixed(2)} ${order.currency.toUpperCase()}`,
+    `Customer: ${order.customerName ?? '—'} <${order.customerEmail ?? '—'}>`,
+    `Language: ${order.lang}`,
+    `Order: ${order.id} (${[order.provider, order.providerSessionId].filter(Boolean).join(' ')})`,
+    ...(order.quote ? ['', ...describeQuote(order.quote)] : []),
+    ...(order.status === 'conflict'
+      ? ['', 'WARNING: another paid order already holds this artwork. Refund this payment.']
+      : []),
+  ];
+  return {
+    event: `checkout.${order.status === 'conflict' ? 'conflict' : order.mode}`,
+    subject: `[${order.status === 'conflict' ? 'Checkout conflict' : action}] ${order.productTitle}`,
+    text: lines.join('\n'),
+    replyTo: order.customerEmail ?? undefined,
+    data: { order },
+  };
+};
+
+// La commande est déjà enregistrée : un canal absent ou en panne ne doit pas la faire échouer.
+const notifyOrder = (order: CheckoutOrder, notifier?: Notifier) =>
+  (async () => (notifier ?? getNotifier()).send(buildOrderNotification(order)))().catch(error => {
+    console.error('Checkout notification failed', order.id, error);
+  });
+
+const syncWooAvailability = async (order: CheckoutOrder) => {
+  await setProductMeta(order.productId, AVAILABILITY_META_KEY, order.mode === 'buy' ? 'sold' : 'reserved');
+  await purgeCacheTags([
+    CACHE_TAGS.product(order.productId),
+    CACHE_TAGS.slug(order.productSlug),
+    CACHE_TAGS.lists,
+    CACHE_TAGS.filteredLists,
+  ]);
+};
+
+// Idempotent : le prestataire renvoie la même notification tant qu'il n'a pas reçu de 2xx.
+export const completeCheckout = async (
+  event: PaymentEvent,
+  options: { store?: CheckoutStore; notifier?: Notifier } = {}
+): Promise<CheckoutOrder> => {
+  const store = options.store ?? getCheckoutStore();
+  const order = await store.get(event.orderId);
+  if (!order) throw new CheckoutError('Order not found', 404);
+
+  const updatedAt = new Date().toISOString();
+  if (event.type !== 'paid') {
+    if (order.status !== 'pending') return order;
+    const released: CheckoutOrder = { ...order, status: event.type, updatedAt };
+    await store.update(released);
+    return released;
+  }
+
+  if (order.status === 'paid' && order.wooSyncedAt) return order;
+  if (order.status === 'conflict') return order;
+
+  let paid = order;
+  if (order.status !== 'paid') {
+    // Paiement arrivé après l'expiration, alors qu'une autre commande a pris l'œuvre.
+    const others = await store.list();
+    const rival = others.find(
+      other => other.id !== order.id && blocksProduct(order.productId, Date.now())(other)
+    );
+    paid = {
+      ...order,
+      status: rival ? 'conflict' : 'paid',
+      providerSessionId: event.sessionId || order.providerSessionId,
+      customerEmail: event.customerEmail ?? order.customerEmail,
+      customerName: event.customerName ?? order.customerName,
+      paidAt: updatedAt,
+      updatedAt,
+    };
+    await store.update(paid);
+    if (rival) {
+      console.error('Checkout conflict: payment received for a held artwork', paid.id, rival.id);
+      await notifyOrder(paid, options.notifier);
+      return paid;
+    }
+  }
+
+  // Une erreur ici remonte au prestataire, qui renverra la notification plus tard.
+  await syncWooAvailability(paid);
+  const syncedAt = new Date().toISOString();
+  const synced: CheckoutOrder = { ...paid, wooSyncedAt: syncedAt, updatedAt: syncedAt };
+  await store.update(synced);
+  await notifyOrder(synced, options.notifier);
+  return synced;
+};
+
+export const handlePaymentCallback = async ({ request }: Pick<APIContext, 'request'>) => {
+  const provider = getPaymentProvider();
+  if (!provider) return json({ ok: false, error: 'Checkout is not available' }, 503);
+
+  const rawBody = await request.text();
+  let event: PaymentEvent | null;
+  try {
+    event = provider.parseCallback(rawBody, request.headers);
+  } catch (error) {
+    if (error instanceof PaymentSignatureError) return json({ ok: false, error: error.message }, 400);
+    throw error;
+  }
+  if (!event) return json({ ok: true, ignored: true });
+
+  try {
+    const order = await completeCheckout(event);
+    return json({ ok: true, orderId: order.id, status: order.status });
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return json({ ok: false, error: error.message }, error.status);
+    }
+    console.error('Checkout completion failed', event.orderId, error);
+    return json({ ok: false, error: 'Checkout completion failed' }, 500);
+  }
+};
+
+const messages = {
+  es: {
+    invalidRequest: 'Solicitud no válida',
+    'Checkout is not available': 'La compra en línea no está disponible. Contáctenos directamente.',
+    'Artwork not found': 'No encontramos esta obra.',
+    'Artwork is not available': 'Esta obra ya no está disponible.',
+    'Artwork is already being purchased':
+      'Otra persona está reservando o comprando esta obra. Inténtelo más tarde o contáctenos.',
+    'Payment could not be started': 'No pudimos iniciar el pago. Inténtelo de nuevo.',
+  },
+  en: {
+    invalidRequest: 'Invalid request',
+    'Checkout is not available': 'Online purchase is not available. Please contact us directly.',
+    'Artwork not found': 'We could not find this artwork.',
+    'Artwork is not available': 'This artwork is no longer available.',
+    'Artwork is already being purchased':
+      'Someone else is reserving or buying this artwork. Please try later or contact us.',
+    'Payment could not be started': 'We could not start the payment. Please try again.',
+  },
+} satisfies Record<ContentLang, Record<string, string>>;
+
+const translateError = (lang: ContentLang, message: string) =>
+  (messages[lang] as Record<string, string>)[message] ?? messages[lang].invalidRequest;
+
+type CheckoutSubmission = {
+  productSlug?: string;
+  mode?: string;
+  lang?: string;
+  email?: string;
+  zip?: string;
+  state?: string;
+  country?: string;
+};
+
+const readSubmission = async (request: Request) => {
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (contentType.includes('application/json')) return readJsonBody<CheckoutSubmission>(request);
+  try {
+    const form = await request.formData();
+    return Object.fromEntries(
+      [...form.entries()].filter(([, value]) => typeof value === 'string')
+    ) as CheckoutSubmission;
+  } catch {
+    return null;
+  }
+};
+
+const EMAIL_PATTERN = /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/;
+
+// Réponse JSON pour le script de la page, redirection 303 vers le prestataire sinon.
+export const handleCheckoutRequest = async ({ request }: Pick<APIContext, 'request'>) => {
+  const wantsJson = (request.headers.get('Accept') ?? '').includes('application/json');
+  const submission = await readSubmission(request);
+  const lang = parseContentLang(submission?.lang) ?? 'es';
+  const productSlug = submission?.productSlug?.trim();
+  const mode = CHECKOUT_MODES.find(candidate => candidate === submission?.mode);
+  const email = submission?.email?.trim().slice(0, 200);
+
+  const fail = (status: number, error: string) => {
+    if (wantsJson) return json({ ok: false, error }, status);
+    // Retour sur la page de l'œuvre, jamais vers un autre domaine.
+    const origin = new URL(request.url).origin;
+    const referer = new URL(request.headers.get('Referer') ?? '/', origin);
+    const back = referer.origin === origin ? referer : new URL(lang === 'en' ? '/en' : '/', origin);
+    back.searchParams.set('checkout', 'error');
+    return new Response(null, { status: 303, headers: { Location: `${back.pathname}${back.search}` } });
+  };
+
+  if (!productSlug || !mode) return fail(400, translateError(lang, 'invalidRequest'));
+
+  try {
+    // Destination facultative : sans elle, l'achat ne débite que le prix de l'œuvre.
+    const hasDestination = Boolean(submission?.zip || submission?.state || submission?.country);
+    const { order, redirectUrl } = await createCheckout({
+      productSlug,
+      mode,
+      lang,
+      customerEmail: email && EMAIL_PATTERN.test(email) ? email : null,
+      destination: hasDestination ? parseQuoteDestination(submission ?? {}) : null,
+      origin: new URL(request.url).origin,
+    });
+    if (!wantsJson) return new Response(null, { status: 303, headers: { Location: redirectUrl } });
+    return json({ ok: true, orderId: order.id, redirectUrl, expiresAt: order.expiresAt }, 201);
+  } catch (error) {
+    if (error instanceof CheckoutError) return fail(error.status, translateError(lang, error.message));
+    if (error instanceof QuoteError) return fail(error.status, translateQuoteError(lang, error.message));
+    console.warn('Checkout request failed', error);
+    return fail(500, translateError(lang, 'Payment could not be started'));
+  }
+};
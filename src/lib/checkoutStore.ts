@@ -0,0 +1,135 @@
+import { getEnvValue, isServerlessRuntime } from './env';
+import { createJsonFile, readRecordList } from './jsonFileStore';
+import { getKvClient, isKvConfigured, withKvLock, type KvClient } from './kv';
+import type { CheckoutOrder } from './checkout';
+
+export interface CheckoutStore {
+  list(): Promise<CheckoutOrder[]>;
+  get(id: string): Promise<CheckoutOrder | null>;
+  // Vérification et insertion atomiques : renvoie la commande qui bloque l'œuvre, ou null si
+  // la nouvelle commande a été enregistrée.
+  claim(
+    order: CheckoutOrder,
+    conflicts: (existing: CheckoutOrder) => boolean
+  ): Promise<CheckoutOrder | null>;
+  update(order: CheckoutOrder): Promise<void>;
+}
+
+// Le code entre la vérification et l'insertion est synchrone : aucune autre requête ne s'intercale.
+export const createMemoryCheckoutStore = (initial: CheckoutOrder[] = []): CheckoutStore => {
+  const orders = new Map(initial.map(order => [order.id, order]));
+  return {
+    list: async () => [...orders.values()],
+    get: async id => orders.get(id) ?? null,
+    claim: async (order, conflicts) => {
+      const blocking = [...orders.values()].find(conflicts);
+      if (blocking) return blocking;
+      orders.set(order.id, order);
+      return null;
+    },
+    update: async order => {
+      if (!orders.has(order.id)) throw new Error(`Unknown order ${order.id}`);
+      orders.set(order.id, order);
+    },
+  };
+};
+
+type JsonFileData = { version: 1; orders: CheckoutOrder[] };
+
+// Une seule instance doit écrire ce fichier ; plusieurs instances demandent un stockage partagé.
+export const createJsonFileCheckoutStore = (path: string): CheckoutStore => {
+  const { read, mutate } = createJsonFile<JsonFileData>(path, raw => ({
+    version: 1,
+    orders: readRecordList<CheckoutOrder>(raw, 'orders'),
+  }));
+
+  return {
+    list: async () => (await read()).orders,
+    get: async id => (await read()).orders.find(order => order.id === id) ?? null,
+    claim: (order, conflicts) =>
+      mutate(data => {
+        const blocking = data.orders.find(conflicts);
+        if (blocking) return blocking;
+        data.orders.push(order);
+        return null;
+      }),
+    update: order =>
+      mutate(data => {
+        const index = data.orders.findIndex(existing => existing.id === order.id);
+        if (index === -1) throw new Error(`Unknown order ${order.id}`);
+        data.orders[index] = order;
+      }),
+  };
+};
+
+// Vérification et insertion sous un verrou par œuvre partagé par toutes les instances (withKvLock),
+// avec le même prédicat que les autres stockages : une commande payée, expirée ou annulée bloque
+// l'œuvre exactement comme en mémoire, sans verrou à libérer ou à convertir.
+export const createKvCheckoutStore = (kv: KvClient, prefix = 'mlag:checkout:'): CheckoutStore => {
+  const orderKey = (id: string) => `${prefix}order:${id}`;
+  const lockKey = (productId: number) => `${prefix}lock:${productId}`;
+  const indexKey = `${prefix}orders`;
+
+  const get = async (id: string) => {
+    const raw = await kv.command<string | null>('GET', orderKey(id));
+    return raw ? (JSON.parse(raw) as CheckoutOrder) : null;
+  };
+
+  const list = async () => {
+    const ids = await kv.command<string[]>('SMEMBERS', indexKey);
+    if (ids.length === 0) return [];
+    const raws = await kv.command<Array<string | null>>('MGET', ...ids.map(orderKey));
+    return raws.flatMap(raw => (raw ? [JSON.parse(raw) as CheckoutOrder] : []));
+  };
+
+  return {
+    list,
+    get,
+    claim: (order, conflicts) =>
+      withKvLock(kv, lockKey(order.productId), async () => {
+        const blocking = (await list()).find(conflicts);
+        if (blocking) return blocking;
+        await kv.command('SET', orderKey(order.id), JSON.stringify(order));
+        await kv.command('SADD', indexKey, order.id);
+        return null;
+      }),
+    // Sous le même verrou : un changement de statut ne s'intercale pas au milieu d'une réservation.
+    update: order =>
+      withKvLock(kv, lockKey(order.productId), async () => {
+        if (!(await kv.command<number>('EXISTS', orderKey(order.id)))) {
+          throw new Error(`Unknown order ${order.id}`);
+        }
+        await kv.command('SET', orderKey(order.id), JSON.stringify(order));
+      }),
+  };
+};
+
+let checkoutStore: CheckoutStore | null = null;
+
+export const getCheckoutStore = () => {
+  if (checkoutStore) return checkoutStore;
+  const kind = (getEnvValue(['CHECKOUT_STORE']) ?? (isKvConfigured() ? 'kv' : 'file'))
+    .trim()
+    .toLowerCase();
+  // Sur Vercel, un verrou local laisserait deux instances vendre la même œuvre.
+  if (kind !== 'kv' && isServerlessRuntime()) {
+    throw new Error(`CHECKOUT_STORE=${kind} is not shared between Vercel instances; use CHECKOUT_STORE=kv`);
+  }
+
+  switch (kind) {
+    case 'memory':
+      checkoutStore = createMemoryCheckoutStore();
+      break;
+    case 'file':
+      checkoutStore = createJsonFileCheckoutStore(
+        getEnvValue(['CHECKOUT_STORE_PATH']) ?? 'data/orders.json'
+      );
+      break;
+    case 'kv':
+      checkoutStore = createKvCheckoutStore(getKvClient('CHECKOUT_STORE'));
+      break;
+    default:
+      throw new Error(`Unknown CHECKOUT_STORE "${kind}"`);
+  }
+  return checkoutStore;
+};
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createCoaToken,
+  createKvRevokedSessionStore,
+  createMemoryRevokedSessionStore,
+  revokeCoaSession,
+  verifyCoaToken,
+} from './coaAuth';
+import { createFakeKvClient } from '../test/fakeKv';
+
+beforeEach(() => {
+  vi.stubEnv('COA_SECRET', 'test-secret');
+});
+
+describe('COA session revocation', () => {
+  it('rejects a logged-out token on every instance sharing KV', async () => {
+    const kv = createFakeKvClient();
+    const [first, second] = [createKvRevokedSessionStore(kv), createKvRevokedSessionStore(kv)];
+    const { token, session } = createCoaToken('layla', ['issue-certificates']);
+
+    expect(await verifyCoaToken(token, second)).toMatchObject({ user: 'layla' });
+    await revokeCoaSession(session, first);
+    expect(await verifyCoaToken(token, second)).toBeNull();
+  });
+
+  it('keeps other sessions of the same user valid', async () => {
+    const store = createMemoryRevokedSessionStore();
+    const revoked = createCoaToken('layla', ['issue-certificates']);
+    const other = createCoaToken('layla', ['issue-certificates']);
+
+    await revokeCoaSession(revoked.session, store);
+    expect(await verifyCoaToken(revoked.token, store)).toBeNull();
+    expect(await verifyCoaToken(other.token, store)).toMatchObject({ nonce: other.session.nonce });
+  });
+
+  it('refuses the token when revocations cannot be read', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { token } = createCoaToken('layla', ['issue-certificates']);
+    const unavailable = {
+      has: async () => {
+        throw new Error('KV down');
+      },
+      add: async () => undefined,
+    };
+    expect(await verifyCoaToken(token, unavailable)).toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import type { APIContext, APIRoute, AstroCookies } from 'astro';
+import { Buffer } from 'node:buffer';
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { getEnvValue, isServerlessRuntime } from './env';
+import { json } from './http';
+import { getKvClient, isKvConfigured, type KvClient } from './kv';
+import type { StaffRole } from './staffUsers';
+
+export const COA_TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+export const COA_SESSION_COOKIE = 'coa_session';
+
+export type StaffSession = { user: string; roles: StaffRole[]; expires: number; nonce: string };
+
+export class CoaAuthConfigError extends Error {
+  constructor() {
+    super('COA_SECRET is not configured');
+    this.name = 'CoaAuthConfigError';
+  }
+}
+
+// Pas de secret aléatoire de secours : un token signé par une instance doit rester
+// valable sur toutes les autres, donc sans COA_SECRET la fonction reste désactivée.
+export const isCoaAuthConfigured = () => Boolean(getEnvValue(['COA_SECRET'])?.trim());
+
+export const getCoaSecret = () => {
+  const secret = getEnvValue(['COA_SECRET'])?.trim();
+  if (!secret) throw new CoaAuthConfigError();
+  return secret;
+};
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+// Nonces révoqués par une déconnexion ou un renouvellement, gardés jusqu'à leur expiration naturelle.
+export interface RevokedSessionStore {
+  has(nonce: string): Promise<boolean>;
+  add(nonce: string, expires: number): Promise<void>;
+}
+
+export const createMemoryRevokedSessionStore = (): RevokedSessionStore => {
+  const revoked = new Map<string, number>();
+  return {
+    has: async nonce => (revoked.get(nonce) ?? 0) > Date.now(),
+    add: async (nonce, expires) => {
+      const now = Date.now();
+      for (const [key, until] of revoked) {
+        if (until <= now) revoked.delete(key);
+      }
+      revoked.set(nonce, expires);
+    },
+  };
+};
+
+// Une clé par nonce, qui expire avec le jeton : la révocation est vue par toutes les instances.
+export const createKvRevokedSessionStore = (kv: KvClient, prefix = 'mlag:coa:revoked:'): RevokedSessionStore => ({
+  has: async nonce => (await kv.command<string | null>('GET', `${prefix}${nonce}`)) !== null,
+  add: async (nonce, expires) => {
+    const ttlMs = Math.ceil(expires - Date.now());
+    if (ttlMs > 0) await kv.command('SET', `${prefix}${nonce}`, '1', 'PX', ttlMs);
+  },
+});
+
+let revokedSessionStore: RevokedSessionStore | null = null;
+
+export const getRevokedSessionStore = () => {
+  if (revokedSessionStore) return revokedSessionStore;
+  const kind = (getEnvValue(['COA_SESSION_STORE']) ?? (isKvConfigured() ? 'kv' : 'memory')).trim().toLowerCase();
+  // En mémoire, une déconnexion ne vaudrait que pour l'instance qui l'a reçue.
+  if (kind !== 'kv' && isServerlessRuntime()) {
+    throw new Error(`COA_SESSION_STORE=${kind} does not reach other Vercel instances; use COA_SESSION_STORE=kv`);
+  }
+
+  switch (kind) {
+    case 'memory':
+      revokedSessionStore = createMemoryRevokedSessionStore();
+      break;
+    case 'kv':
+      revokedSessionStore = createKvRevokedSessionStore(getKvClient('COA_SESSION_STORE'));
+      break;
+    default:
+      throw new Error(`Unknown COA_SESSION_STORE "${kind}"`);
+  }
+  return revokedSessionStore;
+};
+
+export const createCoaToken = (user: string, roles: StaffRole[], secret = getCoaSecret()) => {
+  const session: StaffSession = {
+    user,
+    roles,
+    expires: Date.now() + COA_TOKEN_TTL_MS,
+    nonce: randomBytes(8).toString('hex'),
+  };
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return { token: `${payload}.${sign(payload, secret)}`, session };
+};
+
+export const verifyCoaToken = async (
+  token?: string | null,
+  store?: RevokedSessionStore
+): Promise<StaffSession | null> => {
+  if (!token || !isCoaAuthConfigured()) return null;
+  const [payload, sig] = token.split('.');
+  if (!payload || !sig || !safeEqual(sig, sign(payload, getCoaSecret()))) return null;
+
+  let session: StaffSession;
+  try {
+    session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as StaffSession;
+  } catch {
+    return null;
+  }
+  if (typeof session?.user !== 'string' || typeof session.nonce !== 'string') return null;
+  if (!Array.isArray(session.roles)) return null;
+  if (!(Number(session.expires) > Date.now())) return null;
+
+  try {
+    if (await (store ?? getRevokedSessionStore()).has(session.nonce)) return null;
+  } catch (error) {
+    // Révocation invérifiable : on refuse plutôt que d'accepter un jeton peut-être déconnecté.
+    console.error('COA session revocation check failed', error);
+    return null;
+  }
+  return session;
+};
+
+export const revokeCoaSession = (session: StaffSession, store = getRevokedSessionStore()) =>
+  store.add(session.nonce, session.expires);
+
+export const getBearerToken = (request: Request) => {
+  const header = request.headers.get('Authorization') ?? '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+export const readStaffSession = (request: Request, cookies: AstroCookies) =>
+  verifyCoaToken(cookies.get(COA_SESSION_COOKIE)?.value ?? getBearerToken(request));
+
+export const setSessionCookie = (context: APIContext, token: string, session: StaffSession) => {
+  context.cookies.set(COA_SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: context.url.protocol === 'https:',
+    sameSite: 'strict',
+    path: '/',
+    expires: new Date(session.expires),
+  });
+};
+
+export const clearSessionCookie = (context: APIContext) => {
+  context.cookies.delete(COA_SESSION_COOKIE, { path: '/' });
+};
+
+export const hasStaffRole = (session: StaffSession | null | undefined, role: StaffRole) =>
+  Boolean(session?.roles.includes(role));
+
+// Garde commune des API réservées à la galerie : le middleware a déjà lu la session.
+export const withStaffSession =
+  (
+    handler: (context: APIContext, session: StaffSession) => Response | Promise<Response>,
+    role?: StaffRole
+  ): APIRoute =>
+  context => {
+    if (!isCoaAuthConfigured()) {
+      return json({ ok: false, error: 'COA auth not configured' }, 503);
+    }
+    const session = context.locals.staff;
+    if (!session) {
+      return json({ ok: false, error: 'Unauthorized' }, 401);
+    }
+    if (role && !hasStaffRole(session, role)) {
+      return json({ ok: false, error: 'Forbidden' }, 403);
+    }
+    return handler(context, session);
+  };
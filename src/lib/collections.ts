@@ -0,0 +1,187 @@
+import { isSold } from './availability';
+import type { ContentLang } from './artworkTranslations';
+import { getMediumKey } from './catalogFilters';
+import { getArea } from './dimensions';
+import { getEnvValue } from './env';
+import { getCollectionRoute } from './siteRoutes';
+import { getSeriesKey } from './slugResolver';
+import { slugify } from './slugify';
+import { getAllProducts, localizeProducts, type ProductCard, type ProductTerm } from './wp';
+
+export type CollectionSource = 'tag' | 'category' | 'series';
+
+export type ArtworkCollection = {
+  slug: string;
+  name: string;
+  source: CollectionSource;
+  // Série déduite des slugs : son nom est le titre de cette œuvre, traduit avec elle.
+  rootSlug: string | null;
+  artworks: ProductCard[];
+};
+
+// Étiquettes WooCommerce réservées aux séries ; les autres servent à la disponibilité, au référencement…
+const SERIES_TAG_PREFIX = /^(?:serie|series|coleccion|collection)-/;
+const DEFAULT_EXCLUDED_CATEGORIES = ['uncategorized', 'sin-categorizar', 'sin-categoria'];
+const MIN_COLLECTION_SIZE = 2;
+
+// Ordre = priorité : une étiquette de série est plus précise qu'une catégorie.
+const SOURCE_PRIORITY: CollectionSource[] = ['tag', 'series', 'category'];
+
+const getExcludedCategories = () =>
+  new Set([
+    ...DEFAULT_EXCLUDED_CATEGORIES,
+    ...(getEnvValue(['COLLECTION_EXCLUDED_CATEGORIES']) ?? '')
+      .split(',')
+      .map(value => slugify(value))
+      .filter(Boolean),
+  ]);
+
+// « Mujer 2 », « Mujer #3 » ou « Mujer n.º 4 » : la série s'appelle « Mujer ».
+const cleanSeriesTitle = (title: string) =>
+  title.replace(/\s*(?:#|n\.?\s*[oº°]\.?\s*)?\d+$/i, '').trim() || title;
+
+const groupByTerm = (
+  items: ProductCard[],
+  source: 'tag' | 'category',
+  readTerms: (item: ProductCard) => ProductTerm[]
+) => {
+  const groups = new Map<string, ArtworkCollection>();
+  for (const item of items) {
+    for (const term of readTerms(item)) {
+      const slug = source === 'tag' ? term.slug.replace(SERIES_TAG_PREFIX, '') : term.slug;
+      if (!slug) continue;
+      const group = groups.get(slug) ?? { slug, name: term.name, source, rootSlug: null, artworks: [] };
+      group.artworks.push(item);
+      groups.set(slug, group);
+    }
+  }
+  return [...groups.values()];
+};
+
+// Œuvres sans terme WooCommerce : « mujer », « mujer-pensante » et « mujer-2-oleo » forment la série « mujer ».
+const groupBySlugPattern = (items: ProductCard[]) => {
+  const keyed = items
+    .filter(item => item.slug)
+    .map(item => ({ item, key: getSeriesKey(item.slug) }))
+    .filter(entry => entry.key);
+  const roots = [...new Set(keyed.map(entry => entry.key))].sort((a, b) => a.length - b.length);
+
+  const groups = new Map<string, ArtworkCollection>();
+  for (const { item, key } of keyed) {
+    const root = roots.find(candidate => key === candidate || key.startsWith(`${candidate}-`)) ?? key;
+    const group = groups.get(root) ?? { slug: root, name: '', source: 'series', rootSlug: null, artworks: [] };
+    group.artworks.push(item);
+    groups.set(root, group);
+  }
+
+  for (const group of groups.values()) {
+    const named =
+      group.artworks
+        .filter(item => getSeriesKey(item.slug) === group.slug)
+        .sort((a, b) => a.title.length - b.title.length)[0] ?? group.artworks[0];
+    group.rootSlug = named.slug;
+    group.name = cleanSeriesTitle(named.title);
+  }
+  return [...groups.values()];
+};
+
+export const buildCollections = (items: ProductCard[]): ArtworkCollection[] => {
+  const excludedCategories = getExcludedCategories();
+  const termCollections = [
+    ...groupByTerm(items, 'tag', item =>
+      (item.tags ?? []).filter(tag => SERIES_TAG_PREFIX.test(tag.slug))
+    ),
+    ...groupByTerm(items, 'category', item =>
+      (item.categories ?? []).filter(category => !excludedCategories.has(category.slug))
+    ),
+  ];
+  const grouped = new Set(termCollections.flatMap(collection => collection.artworks));
+  const candidates = [...termCollections, ...groupBySlugPattern(items.filter(item => !grouped.has(item)))];
+
+  const collections: ArtworkCollection[] = [];
+  const seen = new Set<string>();
+  for (const collection of candidates) {
+    if (seen.has(collection.slug) || collection.artworks.length < MIN_COLLECTION_SIZE) continue;
+    // Une catégorie qui regroupe tout le catalogue (« Pinturas ») n'est pas une collection.
+    if (collection.artworks.length === items.length) continue;
+    seen.add(collection.slug);
+    collections.push(collection);
+  }
+  return collections.sort((a, b) => a.name.localeCompare(b.name, 'es'));
+};
+
+// Le catalogue est déjà en cache : le regroupement est recalculé à chaque requête.
+export const getCollections = async () =>
+  buildCollections((await getAllProducts()).filter(painting => painting.image));
+
+export const getCollectionBySlug = async (slug: string) =>
+  (await getCollections()).find(collection => collection.slug === slug) ?? null;
+
+export const getCollectionPath = (slug: string, lang: ContentLang) => getCollectionRoute(slug)[lang];
+
+export const getCollectionsPath = (lang: ContentLang) => (lang === 'en' ? '/en/collections' : '/colecciones');
+
+// Les instantanés du catalogue n'ont pas d'identifiant WooCommerce : le slug identifie l'œuvre.
+const isSameArtwork = (a: ProductCard, b: Pick<ProductCard, 'slug'>) => a.slug === b.slug;
+
+export const getArtworkCollections = (collections: ArtworkCollection[], artwork: Pick<ProductCard, 'slug'>) =>
+  collections
+    .filter(collection => collection.artworks.some(item => isSameArtwork(item, artwork)))
+    .sort((a, b) => SOURCE_PRIORITY.indexOf(a.source) - SOURCE_PRIORITY.indexOf(b.source));
+
+// « Más de esta serie » : la collection la plus précise de l'œuvre, sans l'œuvre elle-même.
+export const getSeriesSiblings = (
+  collections: ArtworkCollection[],
+  artwork: Pick<ProductCard, 'slug'>,
+  limit = 4
+) => {
+  const collection = getArtworkCollections(collections, artwork)[0];
+  if (!collection) return null;
+  const artworks = collection.artworks.filter(item => !isSameArtwork(item, artwork));
+  return {
+    collection,
+    artworks: [...artworks.filter(item => !isSold(item)), ...artworks.filter(isSold)].slice(0, limit),
+  };
+};
+
+// Même technique, surface proche, même orientation ; les œuvres vendues passent après.
+const similarityScore = (artwork: ProductCard, candidate: ProductCard) => {
+  let score = 0;
+  const medium = getMediumKey(artwork.medium);
+  if (medium && medium === getMediumKey(candidate.medium)) score += 2;
+  if (artwork.size && candidate.size) {
+    const areas = [getArea(artwork.size), getArea(candidate.size)];
+    const ratio = Math.min(...areas) / Math.max(...areas);
+    if (ratio >= 0.5) score += 2 * ratio;
+    if (artwork.size.orientation === candidate.size.orientation) score += 0.5;
+  }
+  return score;
+};
+
+export const getSimilarArtworks = (
+  items: ProductCard[],
+  artwork: ProductCard,
+  { exclude = [], limit = 4 }: { exclude?: Array<Pick<ProductCard, 'slug'>>; limit?: number } = {}
+) =>
+  items
+    .filter(item => !isSameArtwork(item, artwork) && !exclude.some(other => isSameArtwork(item, other)))
+    .map(item => ({ item, score: similarityScore(artwork, item) - (isSold(item) ? 1 : 0) }))
+    .filter(candidate => candidate.score >= 2)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => candidate.item);
+
+export const localizeCollection = async (collection: ArtworkCollection, lang: ContentLang) => {
+  const artworks = await localizeProducts(collection.artworks, lang);
+  const root = collection.rootSlug ? artworks.find(item => item.slug === collection.rootSlug) : null;
+  return {
+    ...collection,
+    name: root ? cleanSeriesTitle(root.title) : collection.name,
+    artworks,
+  };
+};
+
+export const getCollectionImage = (collection: ArtworkCollection) => {
+  const cover = collection.artworks.find(item => item.imageFull ?? item.image);
+  return cover ? (cover.imageFull ?? cover.image ?? null) : null;
+};
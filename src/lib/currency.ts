@@ -0,0 +1,139 @@
+import type { AstroCookies } from 'astro';
+import { getEnvValue } from './env';
+
+export const CURRENCIES = ['USD', 'MXN', 'EUR'] as const;
+
+export type Currency = (typeof CURRENCIES)[number];
+
+// Les paiements restent en dollars ; les autres devises ne sont qu'indicatives.
+export const TRANSACTION_CURRENCY: Currency = 'USD';
+
+export type CurrencyRates = {
+  // Unités de devise pour 1 USD.
+  rates: Record<Currency, number>;
+  updatedAt: string;
+};
+
+// Table par défaut, remplacée par CURRENCY_RATES (« MXN=18.4,EUR=0.92 ») et CURRENCY_RATES_UPDATED_AT.
+const DEFAULT_RATES: CurrencyRates = {
+  rates: { USD: 1, MXN: 18.4, EUR: 0.92 },
+  updatedAt: '2026-10-01',
+};
+
+export const CURRENCY_COOKIE = 'mlag_currency';
+const CURRENCY_COOKIE_MAX_AGE_S = 365 * 24 * 60 * 60;
+
+export const parseCurrency = (value: unknown): Currency | null => {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toUpperCase();
+  return CURRENCIES.find(currency => currency === normalized) ?? null;
+};
+
+let currencyRates: CurrencyRates | null = null;
+
+export const getCurrencyRates = (): CurrencyRates => {
+  if (currencyRates) return currencyRates;
+  const rates = { ...DEFAULT_RATES.rates };
+  for (const entry of (getEnvValue(['CURRENCY_RATES']) ?? '').split(',')) {
+    const [code, value] = entry.split('=');
+    const currency = parseCurrency(code);
+    const rate = Number(value);
+    if (currency && currency !== 'USD' && Number.isFinite(rate) && rate > 0) rates[currency] = rate;
+  }
+  const updatedAt = getEnvValue(['CURRENCY_RATES_UPDATED_AT'])?.trim() || DEFAULT_RATES.updatedAt;
+  currencyRates = { rates, updatedAt };
+  return currencyRates;
+};
+
+// Le site espagnol est surtout consulté depuis le Mexique : indication en pesos par défaut.
+const DEFAULT_DISPLAY_CURRENCY: Record<'es' | 'en', Currency> = { es: 'MXN', en: 'USD' };
+
+// Choix explicite du visiteur (?currency=…), mémorisé dans un cookie par le middleware.
+export const readCurrencyPreference = (url: URL, cookies: AstroCookies): Currency | null => {
+  const fromQuery = parseCurrency(url.searchParams.get('currency'));
+  if (fromQuery) {
+    cookies.set(CURRENCY_COOKIE, fromQuery, {
+      path: '/',
+      maxAge: CURRENCY_COOKIE_MAX_AGE_S,
+      sameSite: 'lax',
+    });
+    return fromQuery;
+  }
+  return parseCurrency(cookies.get(CURRENCY_COOKIE)?.value);
+};
+
+export const getDisplayCurrency = (preference: Currency | null | undefined, lang: 'es' | 'en') =>
+  preference ?? DEFAULT_DISPLAY_CURRENCY[lang];
+
+export const convertFromUsd = (amount: number, currency: Currency, rates = getCurrencyRates()) =>
+  amount * rates.rates[currency];
+
+const locales: Record<'es' | 'en', string> = { es: 'es-MX', en: 'en-US' };
+
+// « $1,250 USD », « $23,000 MXN », « €1,150 EUR » : symbole et code, pour lever toute ambiguïté.
+export const formatMoney = (amount: number, currency: Currency, lang: 'es' | 'en' = 'en') => {
+  const formatted = new Intl.NumberFormat(locales[lang], {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'narrowSymbol',
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+  return `${formatted} ${currency}`;
+};
+
+// Montant converti arrondi à l'unité : c'est une estimation, pas un prix.
+export const formatPriceHint = (
+  usdAmount: number | null | undefined,
+  currency: Currency,
+  lang: 'es' | 'en'
+) => {
+  if (!usdAmount || currency === TRANSACTION_CURRENCY) return null;
+  return `≈ ${formatMoney(Math.round(convertFromUsd(usdAmount, currency)), currency, lang)}`;
+};
+
+// Prix USD suivi de l'indication dans la devise choisie, pour les listes d'œuvres.
+export const formatPriceWithHint = (
+  priceText: string | null,
+  usdAmount: number | null | undefined,
+  currency: Currency,
+  lang: 'es' | 'en'
+) => {
+  if (!priceText) return null;
+  const hint = formatPriceHint(usdAmount, currency, lang);
+  return hint ? `${priceText} (${hint})` : priceText;
+};
+
+const formatRateDate = (date: string, lang: 'es' | 'en') => {
+  const parsed = new Date(`${date}T12:00:00Z`);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return new Intl.DateTimeFormat(locales[lang], { dateStyle: 'long', timeZone: 'UTC' }).format(parsed);
+};
+
+export const getRateNotice = (currency: Currency, lang: 'es' | 'en', rates = getCurrencyRates()) => {
+  if (currency === TRANSACTION_CURRENCY) return null;
+  const date = formatRateDate(rates.updatedAt, lang);
+  const rate = rates.rates[currency];
+  return lang === 'en'
+    ? `Indicative amount at 1 USD = ${rate} ${currency} (rate of ${date}). Payment is made in USD.`
+    : `Monto indicativo a 1 USD = ${rate} ${currency} (tipo de cambio del ${date}). El pago se realiza en USD.`;
+};
+
+// Offre schema.org : le prix reste en USD, la devise choisie s'ajoute comme spécification.
+export const getOfferPriceSchema = (usdAmount: number, currency: Currency) => {
+  const usd = { price: usdAmount, priceCurrency: TRANSACTION_CURRENCY };
+  if (currency === TRANSACTION_CURRENCY) return usd;
+  const rates = getCurrencyRates();
+  return {
+    ...usd,
+    priceSpecification: [
+      { '@type': 'UnitPriceSpecification', ...usd },
+      {
+        '@type': 'UnitPriceSpecification',
+        price: Math.round(convertFromUsd(usdAmount, currency, rates)),
+        priceCurrency: currency,
+        validFrom: rates.updatedAt,
+      },
+    ],
+  };
+};
@@ -0,0 +1,142 @@
+import { getEnvValue } from './env';
+
+export type DimensionUnit = 'in' | 'cm';
+
+export type Orientation = 'portrait' | 'landscape' | 'square';
+
+// Convention du site : « 36 x 48 » se lit largeur x hauteur, comme les dimensions WooCommerce.
+export type ArtworkDimensions = {
+  width: number;
+  height: number;
+  depth: number | null;
+  unit: DimensionUnit;
+  orientation: Orientation;
+};
+
+const CM_PER_INCH = 2.54;
+
+// Unité des champs longueur/largeur/hauteur de WooCommerce (réglage de la boutique).
+export const getStoreDimensionUnit = (): DimensionUnit =>
+  getEnvValue(['WC_DIMENSION_UNIT'])?.trim().toLowerCase() === 'cm' ? 'cm' : 'in';
+
+const toNumber = (value?: string | number | null) => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(String(value).replace(',', '.'));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const parseUnit = (value?: string | null): DimensionUnit | null => {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'cm' || normalized.startsWith('cent')) return 'cm';
+  if (normalized === '"' || normalized === 'in') return 'in';
+  if (normalized.startsWith('inch') || normalized.startsWith('pulg')) return 'in';
+  return null;
+};
+
+export const getOrientation = (width: number, height: number): Orientation => {
+  // Quelques pour cent de tolérance : un 36 x 36,5 reste un carré.
+  if (Math.abs(width - height) <= Math.max(width, height) * 0.02) return 'square';
+  return height > width ? 'portrait' : 'landscape';
+};
+
+export const createDimensions = (
+  width: number,
+  height: number,
+  depth: number | null = null,
+  unit: DimensionUnit = 'in'
+): ArtworkDimensions => ({ width, height, depth, unit, orientation: getOrientation(width, height) });
+
+export const parseDimensions = (
+  value?: string | null,
+  defaultUnit: DimensionUnit = 'in'
+): ArtworkDimensions | null => {
+  if (!value) return null;
+  const match = value
+    .replace(/-/g, ' ')
+    .match(
+      /(\d+(?:[.,]\d+)?)\s*[x×]\s*(\d+(?:[.,]\d+)?)(?:\s*[x×]\s*(\d+(?:[.,]\d+)?))?\s*(cm|in(?:ch(?:es)?)?|"|pulg(?:adas)?\.?)?/i
+    );
+  if (!match) return null;
+  const width = toNumber(match[1]);
+  const height = toNumber(match[2]);
+  if (!width || !height) return null;
+  return createDimensions(width, height, toNumber(match[3]), parseUnit(match[4]) ?? defaultUnit);
+};
+
+export const fromWooDimensions = (
+  dimensions?: { width?: string; height?: string; length?: string } | null,
+  unit: DimensionUnit = getStoreDimensionUnit()
+) => {
+  const width = toNumber(dimensions?.width);
+  const height = toNumber(dimensions?.height);
+  if (!width || !height) return null;
+  return createDimensions(width, height, toNumber(dimensions?.length), unit);
+};
+
+const convert = (value: number, from: DimensionUnit, to: DimensionUnit) => {
+  if (from === to) return value;
+  return from === 'in' ? value * CM_PER_INCH : value / CM_PER_INCH;
+};
+
+export const convertDimensions = (size: ArtworkDimensions, unit: DimensionUnit): ArtworkDimensions =>
+  size.unit === unit
+    ? size
+    : {
+        ...size,
+        width: convert(size.width, size.unit, unit),
+        height: convert(size.height, size.unit, unit),
+        depth: size.depth === null ? null : convert(size.depth, size.unit, unit),
+        unit,
+      };
+
+export const getLongestSide = (size: ArtworkDimensions, unit: DimensionUnit = 'in') => {
+  const converted = convertDimensions(size, unit);
+  return Math.max(converted.width, converted.height);
+};
+
+// Surface de la face peinte, en pouces carrés ou cm².
+export const getArea = (size: ArtworkDimensions, unit: DimensionUnit = 'in') => {
+  const converted = convertDimensions(size, unit);
+  return converted.width * converted.height;
+};
+
+const formatNumber = (value: number, lang: 'es' | 'en', maximumFractionDigits: number) =>
+  new Intl.NumberFormat(lang === 'en' ? 'en-US' : 'es-MX', { maximumFractionDigits }).format(value);
+
+const formatSides = (size: ArtworkDimensions, unit: DimensionUnit, lang: 'es' | 'en') => {
+  const converted = convertDimensions(size, unit);
+  const digits = unit === 'cm' ? 0 : 2;
+  return [converted.width, converted.height, converted.depth]
+    .filter((value): value is number => value !== null)
+    .map(value => formatNumber(value, lang, digits))
+    .join(' x ');
+};
+
+// « 36 x 48 in (91 x 122 cm) » : les deux systèmes, quelle que soit la langue.
+export const formatDimensions = (size: ArtworkDimensions | null | undefined, lang: 'es' | 'en') => {
+  if (!size) return null;
+  return `${formatSides(size, 'in', lang)} in (${formatSides(size, 'cm', lang)} cm)`;
+};
+
+export const orientationLabels: Record<'es' | 'en', Record<Orientation, string>> = {
+  es: { portrait: 'Vertical', landscape: 'Horizontal', square: 'Cuadrado' },
+  en: { portrait: 'Portrait', landscape: 'Landscape', square: 'Square' },
+};
+
+const unitCodes: Record<DimensionUnit, string> = { in: 'INH', cm: 'CMT' };
+
+// Propriétés width/height/depth de schema.org VisualArtwork, en QuantitativeValue.
+export const getDimensionsSchema = (size: ArtworkDimensions | null | undefined) => {
+  if (!size) return {};
+  const quantity = (value: number) => ({
+    '@type': 'QuantitativeValue',
+    value,
+    unitCode: unitCodes[size.unit],
+  });
+  return {
+    width: quantity(size.width),
+    height: quantity(size.height),
+    ...(size.depth !== null ? { depth: quantity(size.depth) } : {}),
+  };
+};
@@ -17,3 +17,18 @@ export const getBooleanEnv = (keys: string | string[], defaultValue = true) => {
   if (raw === undefined) return defaultValue;
   return !['false', '0', 'off', 'no'].includes(raw.trim().toLowerCase());
 };
+
+// Vercel : instances multiples et système de fichiers éphémère, rien de durable dans data/.
+export const isServerlessRuntime = () => Boolean(getEnvValue(['VERCEL']));
+
+// Origine publique configurée (SITE_URL, sinon le `site` d'astro.config) : jamais l'en-tête Host
+// d'une requête, qu'un client choisit librement.
+export const getSiteOrigin = (site?: URL) => {
+  const configured = getEnvValue(['SITE_URL'])?.trim() || site?.href;
+  if (!configured) return null;
+  try {
+    return new URL(configured).origin;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,198 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getEventEndTime,
+  getEventStatus,
+  localizeEvent,
+  mapEvent,
+  parseEventDate,
+  renderEventCalendar,
+  splitEvents,
+  type GalleryEvent,
+} from './events';
+
+const wpEvent = (meta: Record<string, unknown>, overrides: Partial<Parameters<typeof mapEvent>[0]> = {}) => ({
+  id: 7,
+  slug: 'luz-y-sombra',
+  title: { rendered: 'Luz &amp; sombra' },
+  content: { rendered: '<p>Primera noche.</p><p>Obras recientes.</p>' },
+  meta,
+  ...overrides,
+});
+
+const event = (overrides: Partial<GalleryEvent>): GalleryEvent => ({
+  id: 7,
+  slug: 'luz-y-sombra',
+  title: 'Luz y sombra',
+  text: null,
+  startsAt: '2026-11-07',
+  endsAt: null,
+  allDay: true,
+  venue: 'My Light Art Gallery',
+  address: '',
+  image: null,
+  artworkRefs: [],
+  translations: {},
+  modifiedAt: '2026-10-01T12:00:00Z',
+  ...overrides,
+});
+
+const at = (iso: string) => Date.parse(iso);
+
+beforeEach(() => {
+  vi.stubEnv('EVENTS_TIME_ZONE', 'America/Chicago');
+});
+
+describe('parseEventDate', () => {
+  // Heure d'été de Chicago en 2026 : du 8 mars au 1er novembre (UTC-5), sinon UTC-6.
+  it.each([
+    ['2026-03-07 18:00', '2026-03-08T00:00:00.000Z'],
+    ['2026-03-08 18:00', '2026-03-08T23:00:00.000Z'],
+    ['2026-03-08 03:00:00', '2026-03-08T08:00:00.000Z'],
+    ['2026-10-31 18:00', '2026-10-31T23:00:00.000Z'],
+    ['2026-11-01 18:00', '2026-11-02T00:00:00.000Z'],
+    ['2026-11-07T18:00:00-06:00', '2026-11-08T00:00:00.000Z'],
+    ['2026-11-07T18:00:00Z', '2026-11-07T18:00:00.000Z'],
+  ])('reads %s in the gallery time zone', (input, expected) => {
+    expect(parseEventDate(input)).toEqual({ value: expected, allDay: false });
+  });
+
+  it.each([
+    ['20261107', '2026-11-07'],
+    ['2026-11-07', '2026-11-07'],
+    [['2026-11-07'], '2026-11-07'],
+  ])('reads %j as an all-day date', (input, expected) => {
+    expect(parseEventDate(input)).toEqual({ value: expected, allDay: true });
+  });
+
+  it.each([null, '', 'mañana', '2026-11-07 6pm', ['2026-11-07', '2026-11-08']])('rejects %j', input => {
+    expect(parseEventDate(input)).toBeNull();
+  });
+});
+
+describe('mapEvent', () => {
+  it('maps the WordPress fields, translations and default venue', () => {
+    const mapped = mapEvent(
+      wpEvent({
+        mlag_event_start: '2026-11-07 18:00',
+        mlag_event_end: '2026-11-07 21:00',
+        mlag_event_title_en: 'Light & shadow',
+        mlag_event_text_en: '<p>Opening night.</p>',
+        mlag_event_artworks: 'tormenta, danza, tormenta',
+        unrelated: 'x',
+      })
+    );
+    expect(mapped).toMatchObject({
+      slug: 'luz-y-sombra',
+      title: 'Luz & sombra',
+      text: 'Primera noche.\n\nObras recientes.',
+      startsAt: '2026-11-08T00:00:00.000Z',
+      endsAt: '2026-11-08T03:00:00.000Z',
+      allDay: false,
+      venue: 'My Light Art Gallery',
+      artworkRefs: ['tormenta', 'danza'],
+      translations: { en: { title: 'Light & shadow', text: 'Opening night.' } },
+    });
+    expect(localizeEvent(mapped!, 'en')).toMatchObject({ title: 'Light & shadow', textLang: 'en' });
+  });
+
+  it.each([
+    ['an end before the start', '2026-11-06 18:00'],
+    ['an all-day end for a timed start', '2026-11-08'],
+  ])('drops %s', (_label, end) => {
+    const mapped = mapEvent(wpEvent({ mlag_event_start: '2026-11-07 18:00', mlag_event_end: end }));
+    expect(mapped?.endsAt).toBeNull();
+  });
+
+  it('ignores an event without a start date', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(mapEvent(wpEvent({ mlag_event_end: '2026-11-08' }))).toBeNull();
+  });
+});
+
+describe('event status', () => {
+  it.each([
+    // Journée entière : du minuit local du premier jour au minuit local après le dernier.
+    [
+      'all-day across the fall DST change', { startsAt: '2026-10-31', endsAt: '2026-11-01' },
+      '2026-10-31T05:00:00.000Z', '2026-11-02T06:00:00.000Z',
+    ],
+    [
+      'all-day across the spring DST change', { startsAt: '2026-03-07', endsAt: '2026-03-08' },
+      '2026-03-07T06:00:00.000Z', '2026-03-09T05:00:00.000Z',
+    ],
+    [
+      'single all-day', { startsAt: '2026-11-07' },
+      '2026-11-07T06:00:00.000Z', '2026-11-08T06:00:00.000Z',
+    ],
+    [
+      'timed', { startsAt: '2026-11-08T00:00:00.000Z', endsAt: '2026-11-08T03:00:00.000Z', allDay: false },
+      '2026-11-08T00:00:00.000Z', '2026-11-08T03:00:00.000Z',
+    ],
+  ] as const)('%s', (_label, overrides, start, end) => {
+    const item = event(overrides);
+    expect(new Date(getEventEndTime(item)).toISOString()).toBe(end);
+    expect(getEventStatus(item, at(start) - 1)).toBe('upcoming');
+    expect(getEventStatus(item, at(start))).toBe('ongoing');
+    expect(getEventStatus(item, at(end) - 1)).toBe('ongoing');
+    expect(getEventStatus(item, at(end))).toBe('past');
+  });
+
+  it('splits upcoming and ongoing events from past ones, latest past first', () => {
+    const events = [
+      event({ slug: 'antigua', startsAt: '2026-09-01' }),
+      event({ slug: 'reciente', startsAt: '2026-10-01' }),
+      event({ slug: 'hoy', startsAt: '2026-10-18' }),
+      event({ slug: 'proxima', startsAt: '2026-11-07' }),
+    ];
+    const { upcoming, past } = splitEvents(events, at('2026-10-18T20:00:00Z'));
+    expect(upcoming.map(item => item.slug)).toEqual(['hoy', 'proxima']);
+    expect(past.map(item => item.slug)).toEqual(['reciente', 'antigua']);
+  });
+});
+
+describe('renderEventCalendar', () => {
+  const options = {
+    url: 'https://www.mylightartgallery.com/eventos/luz-y-sombra',
+    host: 'www.mylightartgallery.com',
+  };
+  const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+  it('folds long multibyte lines at 75 octets without splitting characters', () => {
+    const title = 'Exposición «Luz y sombra»; obras de Layla, 光と影の対話 — noche de apertura con la artista 🎨';
+    const ics = renderEventCalendar({ ...event({ title }), textLang: 'es' }, options);
+    const lines = ics.split('\r\n');
+    for (const line of lines) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    expect(lines.some(line => line.startsWith(' '))).toBe(true);
+    expect(ics).not.toContain('�');
+    expect(unfold(ics)).toContain(
+      'SUMMARY:Exposición «Luz y sombra»\\; obras de Layla\\, 光と影の対話 — noche de apertura con la artista 🎨\r\n'
+    );
+  });
+
+  it('escapes the description and ends all-day events the day after', () => {
+    const ics = unfold(
+      renderEventCalendar(
+        {
+          ...event({ startsAt: '2026-12-30', endsAt: '2026-12-31', text: 'Primera noche.\n\nC:\\obras' }),
+          textLang: 'es',
+        },
+        options
+      )
+    );
+    expect(ics).toContain('DTSTART;VALUE=DATE:20261230\r\nDTEND;VALUE=DATE:20270101\r\n');
+    expect(ics).toContain(`DESCRIPTION:Primera noche.\\n\\nC:\\\\obras\\n\\n${options.url}\r\n`);
+    expect(ics).toContain('UID:event-7@www.mylightartgallery.com\r\n');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('writes timed events in UTC', () => {
+    const ics = renderEventCalendar(
+      {
+        ...event({ startsAt: '2026-11-08T00:00:00.000Z', endsAt: '2026-11-08T03:00:00.000Z', allDay: false }),
+        textLang: 'es',
+      },
+      options
+    );
+    expect(ics).toContain('DTSTART:20261108T000000Z\r\nDTEND:20261108T030000Z\r\n');
+  });
+});
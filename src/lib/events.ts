@@ -0,0 +1,462 @@
+import type { APIContext } from 'astro';
+import { SOURCE_LANG, type ContentLang } from './artworkTranslations';
+import { cached } from './catalogCache';
+import { getBooleanEnv, getEnvValue } from './env';
+import { json } from './http';
+import { fetchWpCollection } from './wp';
+
+export type EventCopy = {
+  title: string;
+  text: string | null;
+};
+
+export type GalleryEvent = {
+  id: number;
+  slug: string;
+  title: string;
+  // Texte brut, paragraphes séparés par une ligne vide.
+  text: string | null;
+  // Date seule (AAAA-MM-JJ) pour un événement sur journée entière, sinon instant ISO 8601 en UTC.
+  startsAt: string;
+  endsAt: string | null;
+  allDay: boolean;
+  venue: string;
+  address: string;
+  image: string | null;
+  // Œuvres exposées : slugs ou identifiants WooCommerce.
+  artworkRefs: string[];
+  translations: Partial<Record<ContentLang, Partial<EventCopy>>>;
+  modifiedAt: string | null;
+};
+
+export type LocalizedEvent = GalleryEvent & { textLang: ContentLang };
+
+// Articles ou type de contenu WordPress exposé en REST (register_post_type … show_in_rest).
+type WpEvent = {
+  id: number;
+  slug: string;
+  modified_gmt?: string | null;
+  title?: { rendered?: string };
+  content?: { rendered?: string };
+  meta?: Record<string, unknown> | unknown[];
+  acf?: Record<string, unknown> | unknown[];
+  _embedded?: { 'wp:featuredmedia'?: Array<{ source_url?: string | null }> };
+};
+
+// Champs personnalisés (méta REST ou ACF) : mlag_event_start, mlag_event_title_en, etc.
+const FIELD_PREFIX = 'mlag_event_';
+const TRANSLATION_FIELD_PATTERN = /^mlag_event_(title|text)_(es|en)$/;
+
+export const EVENTS_CACHE_TAG = 'events';
+
+const GALLERY_NAME = 'My Light Art Gallery';
+
+const GALLERY_POSTAL_ADDRESS = {
+  streetAddress: "5215 N. O'Connor Rd. Ste 1725",
+  addressLocality: 'Irving',
+  addressRegion: 'TX',
+  postalCode: '75039',
+  addressCountry: 'US',
+};
+
+const GALLERY_ADDRESS = `${GALLERY_POSTAL_ADDRESS.streetAddress}, ${GALLERY_POSTAL_ADDRESS.addressLocality}, ${GALLERY_POSTAL_ADDRESS.addressRegion} ${GALLERY_POSTAL_ADDRESS.postalCode}`;
+
+// Même interrupteur que le bloc « Qué hay » de l'accueil.
+export const isEventsEnabled = () => getBooleanEnv(['PUBLIC_SHOW_EVENTS_NEWS', 'SHOW_EVENTS_NEWS'], true);
+
+export const getEventsTimeZone = () => getEnvValue(['EVENTS_TIME_ZONE'])?.trim() || 'America/Chicago';
+
+const getEventsRestPath = () => getEnvValue(['EVENTS_REST_PATH'])?.trim() || '/wp/v2/events';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  quot: '"',
+  apos: "'",
+  lt: '<',
+  gt: '>',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  laquo: '«',
+  raquo: '»',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  iexcl: '¡',
+  iquest: '¿',
+};
+
+const COMBINING_ACCENTS: Record<string, string> = {
+  acute: '\u0301',
+  grave: '\u0300',
+  circ: '\u0302',
+  tilde: '\u0303',
+  uml: '\u0308',
+};
+
+// Titres et contenus « rendered » de WordPress : entités numériques, accents et ponctuation typographique.
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&([a-z])(acute|grave|circ|tilde|uml);/gi, (_, letter: string, accent: string) =>
+      `${letter}${COMBINING_ACCENTS[accent]}`.normalize('NFC')
+    )
+    .replace(/&([a-z]+);/gi, (entity, name: string) => NAMED_ENTITIES[name] ?? entity)
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(Number.parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+const toPlainText = (html?: string | null) => {
+  if (!html) return null;
+  const text = decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|h[1-6]|li)>/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split(/\n{2,}/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+  return text || null;
+};
+
+const readFields = (item: WpEvent) => {
+  const fields: Record<string, unknown> = {};
+  for (const source of [item.meta, item.acf]) {
+    if (!source || Array.isArray(source)) continue;
+    for (const [key, value] of Object.entries(source)) {
+      if (key.startsWith(FIELD_PREFIX)) fields[key] = value;
+    }
+  }
+  return fields;
+};
+
+// Les méta non « single » arrivent en tableau d'une valeur.
+const readString = (value: unknown): string | null => {
+  if (Array.isArray(value)) return value.length === 1 ? readString(value[0]) : null;
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() || null : null;
+};
+
+// Décalage du fuseau à un instant donné, en minutes (heure d'été comprise).
+const getTimeZoneOffset = (timeZone: string, timestamp: number) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second')
+  );
+  return (asUtc - timestamp) / 60_000;
+};
+
+const zonedTimeToUtc = (
+  [year, month, day, hour = 0, minute = 0, second = 0]: number[],
+  timeZone: string
+) => {
+  const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+  const first = guess - getTimeZoneOffset(timeZone, guess) * 60_000;
+  // Second passage pour les heures proches d'un changement d'heure.
+  return guess - getTimeZoneOffset(timeZone, first) * 60_000;
+};
+
+// Accepte les formats des sélecteurs ACF (20261107, « 2026-11-07 18:00:00 ») et l'ISO 8601.
+export const parseEventDate = (value: unknown, timeZone = getEventsTimeZone()) => {
+  const raw = readString(value);
+  if (!raw) return null;
+  const dateOnly = raw.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  if (dateOnly) return { value: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}`, allDay: true };
+
+  if (/(?:Z|[+-]\d{2}:?\d{2})$/i.test(raw)) {
+    const timestamp = Date.parse(raw);
+    return Number.isNaN(timestamp) ? null : { value: new Date(timestamp).toISOString(), allDay: false };
+  }
+
+  const local = raw.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/);
+  if (!local) return null;
+  const timestamp = zonedTimeToUtc(local.slice(1).map(part => Number(part ?? 0)), timeZone);
+  return { value: new Date(timestamp).toISOString(), allDay: false };
+};
+
+// Liste « slug, slug » ou champ relation ACF (identifiants ou objets produit).
+const readArtworkRefs = (value: unknown) => {
+  const entries = Array.isArray(value) ? value : (readString(value) ?? '').split(/[\s,]+/);
+  const refs = entries.map(entry => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return readString(entry);
+    const post = entry as { post_name?: unknown; ID?: unknown };
+    return readString(post.post_name ?? post.ID);
+  });
+  return [...new Set(refs.filter((ref): ref is string => Boolean(ref)))];
+};
+
+export const mapEvent = (item: WpEvent): GalleryEvent | null => {
+  const fields = readFields(item);
+  const start = parseEventDate(fields[`${FIELD_PREFIX}start`]);
+  if (!item.slug || !start) {
+    console.warn(`Event ${item.id} ignored: missing slug or ${FIELD_PREFIX}start`);
+    return null;
+  }
+  const end = parseEventDate(fields[`${FIELD_PREFIX}end`]);
+
+  const translations: GalleryEvent['translations'] = {};
+  for (const [key, value] of Object.entries(fields)) {
+    const match = key.match(TRANSLATION_FIELD_PATTERN);
+    const text = match?.[1] === 'text' ? toPlainText(readString(value)) : readString(value);
+    if (!match || !text) continue;
+    const lang = match[2] as ContentLang;
+    translations[lang] = { ...translations[lang], [match[1]]: text };
+  }
+
+  const venue = readString(fields[`${FIELD_PREFIX}venue`]);
+  return {
+    id: item.id,
+    slug: item.slug,
+    title: toPlainText(item.title?.rendered) ?? item.slug,
+    text: toPlainText(item.content?.rendered),
+    startsAt: start.value,
+    // Une fin sans heure ne peut accompagner qu'un début sans heure (et inversement).
+    endsAt: end && end.allDay === start.allDay && end.value >= start.value ? end.value : null,
+    allDay: start.allDay,
+    venue: venue ?? GALLERY_NAME,
+    address: readString(fields[`${FIELD_PREFIX}address`]) ?? (venue ? '' : GALLERY_ADDRESS),
+    image: item._embedded?.['wp:featuredmedia']?.[0]?.source_url?.replace('http://', 'https://') ?? null,
+    artworkRefs: readArtworkRefs(fields[`${FIELD_PREFIX}artworks`]),
+    translations,
+    modifiedAt: item.modified_gmt ? `${item.modified_gmt.replace(/Z$/, '')}Z` : null,
+  };
+};
+
+const loadEvents = async () => {
+  const items = await fetchWpCollection<WpEvent>(getEventsRestPath(), {
+    _embed: 'wp:featuredmedia',
+    status: 'publish',
+  });
+  return (items ?? [])
+    .map(mapEvent)
+    .filter((event): event is GalleryEvent => Boolean(event))
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+};
+
+// Sans WordPress ni cache, aucun événement : les pages affichent leur message vide.
+export const getEvents = async (): Promise<GalleryEvent[]> => {
+  if (!isEventsEnabled()) return [];
+  try {
+    return await cached('events', loadEvents, { tags: () => [EVENTS_CACHE_TAG] });
+  } catch (error) {
+    console.warn('WP events fetch error', error);
+    return [];
+  }
+};
+
+export const getEventBySlug = async (slug: string) =>
+  (await getEvents()).find(event => event.slug === slug) ?? null;
+
+// Œuvres de l'événement dans l'ordre saisi ; celles retirées du catalogue sont ignorées.
+export const getEventArtworks = <T extends { id: number; slug: string }>(event: GalleryEvent, products: T[]) =>
+  event.artworkRefs
+    .map(ref => products.find(product => product.slug === ref || String(product.id) === ref))
+    .filter((product): product is T => Boolean(product));
+
+// Fin effective : minuit passé du dernier jour pour une journée entière, sinon l'heure de fin (ou de début).
+export const getEventEndTime = (event: GalleryEvent) => {
+  if (!event.allDay) return Date.parse(event.endsAt ?? event.startsAt);
+  const [year, month, day] = (event.endsAt ?? event.startsAt).split('-').map(Number);
+  return zonedTimeToUtc([year, month, day + 1], getEventsTimeZone());
+};
+
+const getEventStartTime = (event: GalleryEvent) =>
+  event.allDay
+    ? zonedTimeToUtc(event.startsAt.split('-').map(Number), getEventsTimeZone())
+    : Date.parse(event.startsAt);
+
+export type EventStatus = 'upcoming' | 'ongoing' | 'past';
+
+export const getEventStatus = (event: GalleryEvent, now = Date.now()): EventStatus =>
+  getEventEndTime(event) <= now ? 'past' : getEventStartTime(event) <= now ? 'ongoing' : 'upcoming';
+
+export const eventStatusLabels: Record<ContentLang, Record<EventStatus, string>> = {
+  es: { upcoming: 'Próximamente', ongoing: 'En curso', past: 'Finalizado' },
+  en: { upcoming: 'Coming soon', ongoing: 'Now on', past: 'Past event' },
+};
+
+export const splitEvents = (events: GalleryEvent[], now = Date.now()) => ({
+  upcoming: events.filter(event => getEventEndTime(event) > now),
+  past: events.filter(event => getEventEndTime(event) <= now).reverse(),
+});
+
+// Événement en cours ou prochain, pour l'accueil.
+export const getNextEvent = async (now = Date.now()) => splitEvents(await getEvents(), now).upcoming[0] ?? null;
+
+export const localizeEvent = (event: GalleryEvent, lang: ContentLang): LocalizedEvent => {
+  const copy = event.translations[lang] ?? {};
+  return {
+    ...event,
+    title: copy.title ?? event.title,
+    text: copy.text ?? event.text,
+    textLang: lang === SOURCE_LANG || copy.text ? lang : SOURCE_LANG,
+  };
+};
+
+export const getEventPath = (slug: string, lang: ContentLang) =>
+  lang === 'en' ? `/en/events/${slug}` : `/eventos/${slug}`;
+
+export const getEventsPath = (lang: ContentLang) => (lang === 'en' ? '/en/events' : '/eventos');
+
+const locales: Record<ContentLang, string> = { es: 'es-MX', en: 'en-US' };
+
+const dateOnlyAsUtc = (value: string) => new Date(`${value}T12:00:00Z`);
+
+// « 7 – 21 de noviembre de 2026 », « November 7, 2026, 6:00 PM – 9:00 PM CST »
+export const formatEventDates = (event: GalleryEvent, lang: ContentLang) => {
+  if (event.allDay) {
+    const format = new Intl.DateTimeFormat(locales[lang], { dateStyle: 'long', timeZone: 'UTC' });
+    const start = dateOnlyAsUtc(event.startsAt);
+    return event.endsAt && event.endsAt !== event.startsAt
+      ? format.formatRange(start, dateOnlyAsUtc(event.endsAt))
+      : format.format(start);
+  }
+  const format = new Intl.DateTimeFormat(locales[lang], {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: getEventsTimeZone(),
+  });
+  const start = new Date(event.startsAt);
+  const range = event.endsAt ? format.formatRange(start, new Date(event.endsAt)) : format.format(start);
+  const zone = new Intl.DateTimeFormat('en-US', { timeZone: getEventsTimeZone(), timeZoneName: 'short' })
+    .formatToParts(start)
+    .find(part => part.type === 'timeZoneName')?.value;
+  return zone ? `${range} ${zone}` : range;
+};
+
+const toSchemaDate = (value: string, allDay: boolean) => (allDay ? value : value.replace(/\.\d{3}Z$/, 'Z'));
+
+export const getEventSchema = (
+  event: LocalizedEvent,
+  options: { url: string; artworks: Array<{ name: string; url: string }>; image?: string | null }
+) => ({
+  '@context': 'https://schema.org',
+  '@type': 'ExhibitionEvent',
+  name: event.title,
+  ...(event.text ? { description: event.text.split('\n\n')[0] } : {}),
+  url: options.url,
+  startDate: toSchemaDate(event.startsAt, event.allDay),
+  ...(event.endsAt ? { endDate: toSchemaDate(event.endsAt, event.allDay) } : {}),
+  eventStatus: 'https://schema.org/EventScheduled',
+  eventAttendanceMode: 'https://schema.org/OfflineEventAttendanceMode',
+  location: {
+    '@type': 'Place',
+    name: event.venue,
+    address:
+      event.venue === GALLERY_NAME && event.address === GALLERY_ADDRESS
+        ? { '@type': 'PostalAddress', ...GALLERY_POSTAL_ADDRESS }
+        : event.address || undefined,
+  },
+  ...(options.image ? { image: [options.image] } : {}),
+  organizer: { '@type': 'Organization', name: GALLERY_NAME },
+  ...(options.artworks.length > 0
+    ? {
+        workFeatured: options.artworks.map(artwork => ({
+          '@type': 'VisualArtwork',
+          name: artwork.name,
+          url: artwork.url,
+        })),
+      }
+    : {}),
+});
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lignes de 75 octets au plus (RFC 5545), repliées par un espace en tête de ligne.
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      chunks.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const toIcsDateTime = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toIcsDate = (value: string) => value.replace(/-/g, '');
+
+const nextDay = (value: string) => {
+  const date = dateOnlyAsUtc(value);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+};
+
+export const renderEventCalendar = (event: LocalizedEvent, options: { url: string; host: string }) => {
+  const location = [event.venue, event.address].filter(Boolean).join(', ');
+  const timing = event.allDay
+    ? [
+        `DTSTART;VALUE=DATE:${toIcsDate(event.startsAt)}`,
+        // DTEND exclusif : le lendemain du dernier jour.
+        `DTEND;VALUE=DATE:${toIcsDate(nextDay(event.endsAt ?? event.startsAt))}`,
+      ]
+    : [
+        `DTSTART:${toIcsDateTime(event.startsAt)}`,
+        ...(event.endsAt ? [`DTEND:${toIcsDateTime(event.endsAt)}`] : []),
+      ];
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//My Light Art Gallery//Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:event-${event.id}@${options.host}`,
+    `DTSTAMP:${toIcsDateTime(new Date(Date.parse(event.modifiedAt ?? '') || Date.now()).toISOString())}`,
+    ...timing,
+    `SUMMARY:${escapeIcsText(event.title)}`,
+    ...(event.text ? [`DESCRIPTION:${escapeIcsText(`${event.text}\n\n${options.url}`)}`] : []),
+    ...(location ? [`LOCATION:${escapeIcsText(location)}`] : []),
+    `URL:${options.url}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+// GET /eventos/<slug>.ics et /en/events/<slug>.ics
+export const handleEventCalendarRequest = async (
+  { params, site, url }: Pick<APIContext, 'params' | 'site' | 'url'>,
+  lang: ContentLang
+) => {
+  const event = await getEventBySlug(params.slug ?? '');
+  if (!event) return json({ ok: false, error: 'Event not found' }, 404);
+
+  const base = site ?? new URL(url.origin);
+  const body = renderEventCalendar(localizeEvent(event, lang), {
+    url: new URL(getEventPath(event.slug, lang), base).href,
+    host: base.hostname,
+  });
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${event.slug}.ics"`,
+      'Cache-Control': 'public, max-age=0, s-maxage=3600',
+    },
+  });
+};
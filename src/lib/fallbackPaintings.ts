@@ -1,13 +0,0 @@
-export const fallbackPaintings = [
-  { title: 'Atardecer', image: '/pinturas/preview/atardecer.webp' },
-  { title: 'Curiosidad', image: '/pinturas/preview/curiosidad.webp' },
-  { title: 'Botellas', image: '/pinturas/preview/botellas.webp' },
-  { title: 'Mujer', image: '/pinturas/preview/mujer36x36.webp' },
-  { title: 'Mujer Pensante', image: '/pinturas/preview/mujer%20pensante.webp' },
-  { title: 'Bipolaridad', image: '/pinturas/preview/bipolaridad.webp' },
-  { title: 'Contrastes', image: '/pinturas/preview/contrastes.webp' },
-  { title: 'Tormenta', image: '/pinturas/preview/tormenta.webp' },
-  { title: 'Espirales', image: '/pinturas/preview/espirales.webp' },
-  { title: 'Pareja', image: '/pinturas/preview/pareja36x36.webp' },
-  { title: 'Danza', image: '/pinturas/preview/danza36x36.webp' },
-];
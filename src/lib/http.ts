@@ -0,0 +1,14 @@
+export const json = (data: object, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+export const readJsonBody = async <T extends object>(request: Request): Promise<T | null> => {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' ? (body as T) : null;
+  } catch {
+    return null;
+  }
+};
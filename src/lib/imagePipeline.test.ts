@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handleImageRequest } from './imagePipeline';
+import { findLocalImageByHash } from './images';
+
+vi.mock('./images', async importOriginal => ({
+  ...(await importOriginal<typeof import('./images')>()),
+  findLocalImageByHash: vi.fn(),
+}));
+
+const HASH = '0123456789abcdef';
+
+// Une image de public/ absente de la fonction : l'original doit être relu sur le site configuré.
+const request = (site?: URL) =>
+  handleImageRequest({
+    params: { file: `${HASH}-640.webp` },
+    url: new URL(`https://attacker.example/img/${HASH}-640.webp`),
+    site,
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('handleImageRequest', () => {
+  it('reads a missing local original from the configured site, never from the Host header', async () => {
+    vi.mocked(findLocalImageByHash).mockReturnValue({
+      path: '/missing/obra de prueba.jpg',
+      entry: { hash: HASH, width: 1200, height: 800, placeholder: '' },
+    });
+    const fetchMock = vi.fn(async () => new Response('nope', { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const res = await request(new URL('https://www.mylightartgallery.com'));
+    expect(res.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://www.mylightartgallery.com/missing/obra%20de%20prueba.jpg',
+      expect.anything()
+    );
+
+    vi.stubEnv('SITE_URL', 'https://preview.mylightartgallery.com/');
+    await request(new URL('https://www.mylightartgallery.com'));
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      'https://preview.mylightartgallery.com/missing/obra%20de%20prueba.jpg',
+      expect.anything()
+    );
+  });
+
+  it('gives up without fetching when no site is configured', async () => {
+    vi.mocked(findLocalImageByHash).mockReturnValue({
+      path: '/missing/obra.jpg',
+      entry: { hash: HASH, width: 1200, height: 800, placeholder: '' },
+    });
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect((await request()).status).toBe(404);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,211 @@
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { extname, join, resolve } from 'node:path';
+import type { APIContext } from 'astro';
+import sharp from 'sharp';
+import { getSiteOrigin } from './env';
+import { json } from './http';
+import {
+  findLocalImageByHash,
+  getVariantPath,
+  getVariantWidths,
+  hashImageSource,
+  IMAGE_FORMATS,
+  IMAGE_MANIFEST_VERSION,
+  IMAGE_MIME_TYPES,
+  IMAGE_WIDTHS,
+  isAllowedRemoteImage,
+  PLACEHOLDER_WIDTH,
+  type ImageFormat,
+  type ImageManifest,
+  type LocalImageEntry,
+} from './images';
+
+// Dossiers de public/ dont les photos passent par le pipeline (sans les sous-dossiers de copies manuelles).
+export const LOCAL_IMAGE_DIRS = ['slider', 'pinturas/preview', 'gallerie', 'collections', 'fotos para editar WP'];
+
+const SOURCE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.avif']);
+
+const MAX_SOURCE_BYTES = 25 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 15_000;
+
+export class ImageSourceError extends Error {
+  constructor(
+    message: string,
+    readonly status = 502
+  ) {
+    super(message);
+    this.name = 'ImageSourceError';
+  }
+}
+
+export const renderImageVariant = (input: Buffer, width: number, format: ImageFormat) => {
+  // rotate() applique l'orientation EXIF des photos prises au téléphone.
+  const resized = sharp(input).rotate().resize({ width, withoutEnlargement: true });
+  return format === 'avif'
+    ? resized.avif({ quality: 50, effort: 4 }).toBuffer()
+    : resized.webp({ quality: 75 }).toBuffer();
+};
+
+export const createPlaceholder = async (input: Buffer) => {
+  const tiny = await sharp(input)
+    .rotate()
+    .resize({ width: PLACEHOLDER_WIDTH, withoutEnlargement: true })
+    .webp({ quality: 40 })
+    .toBuffer();
+  return `data:image/webp;base64,${tiny.toString('base64')}`;
+};
+
+const readDimensions = async (input: Buffer) => {
+  const { width, height, orientation } = await sharp(input).metadata();
+  if (!width || !height) throw new ImageSourceError('Unreadable image', 422);
+  // Orientations EXIF 5 à 8 : la photo est affichée pivotée d'un quart de tour.
+  return orientation && orientation >= 5 ? { width: height, height: width } : { width, height };
+};
+
+export const fetchImageSource = async (url: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  } catch {
+    throw new ImageSourceError(`Image source unreachable: ${url}`);
+  }
+  if (!response.ok) throw new ImageSourceError(`Image source returned ${response.status}: ${url}`);
+  if (!(response.headers.get('content-type') ?? '').startsWith('image/')) {
+    throw new ImageSourceError(`Image source is not an image: ${url}`);
+  }
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_SOURCE_BYTES) {
+    throw new ImageSourceError(`Image source too large: ${url}`, 413);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.byteLength > MAX_SOURCE_BYTES) throw new ImageSourceError(`Image source too large: ${url}`, 413);
+  return buffer;
+};
+
+// Le dossier public/ n'est pas embarqué dans les fonctions Vercel : on relit alors l'original sur
+// le site configuré. La réponse est mise en cache un an : l'origine ne vient jamais de la requête.
+export const loadLocalImageSource = async (path: string, origin: string | null, publicDir = 'public') => {
+  try {
+    return await readFile(join(resolve(publicDir), path));
+  } catch {
+    if (!origin) throw new ImageSourceError(`Local image missing and no site configured: ${path}`, 404);
+    return fetchImageSource(new URL(encodeURI(path), origin).toString());
+  }
+};
+
+const listSourceImages = async (publicDir: string) => {
+  const paths: string[] = [];
+  for (const dir of LOCAL_IMAGE_DIRS) {
+    let names: string[];
+    try {
+      names = await readdir(join(publicDir, dir));
+    } catch {
+      continue;
+    }
+    for (const name of names.sort()) {
+      if (!SOURCE_EXTENSIONS.has(extname(name).toLowerCase())) continue;
+      if ((await stat(join(publicDir, dir, name))).isFile()) paths.push(`/${dir}/${name}`);
+    }
+  }
+  return paths;
+};
+
+const fileExists = (path: string) =>
+  stat(path).then(
+    () => true,
+    () => false
+  );
+
+export type OptimizeLocalImagesOptions = {
+  publicDir: string;
+  previous: ImageManifest | null;
+  writeVariants: boolean;
+  onProgress?: (message: string) => void;
+};
+
+// Reconstruit le manifeste ; une image dont le contenu n'a pas changé garde son entrée et ses variantes.
+export const optimizeLocalImages = async ({
+  publicDir,
+  previous,
+  writeVariants,
+  onProgress = () => {},
+}: OptimizeLocalImagesOptions): Promise<ImageManifest> => {
+  const images: Record<string, LocalImageEntry> = {};
+  let changed = false;
+  const previousImages = previous?.version === IMAGE_MANIFEST_VERSION ? previous.images : {};
+  const outDir = join(publicDir, 'img');
+  if (writeVariants) await mkdir(outDir, { recursive: true });
+
+  for (const path of await listSourceImages(publicDir)) {
+    const input = await readFile(join(publicDir, path));
+    const hash = hashImageSource(input);
+    const known = previousImages[path];
+    const entry =
+      known?.hash === hash
+        ? known
+        : { hash, ...(await readDimensions(input)), placeholder: await createPlaceholder(input) };
+    images[path] = entry;
+    if (entry !== known) {
+      changed = true;
+      onProgress(`indexed ${path}`);
+    }
+
+    if (!writeVariants) continue;
+    for (const width of getVariantWidths(entry.width)) {
+      for (const format of IMAGE_FORMATS) {
+        const file = join(publicDir, getVariantPath(hash, width, format));
+        if (await fileExists(file)) continue;
+        await writeFile(file, await renderImageVariant(input, width, format));
+        onProgress(`wrote ${getVariantPath(hash, width, format)}`);
+      }
+    }
+  }
+
+  changed ||= Object.keys(images).length !== Object.keys(previousImages).length;
+  const generatedAt = changed ? new Date().toISOString() : (previous?.generatedAt ?? null);
+  return { version: IMAGE_MANIFEST_VERSION, generatedAt, images };
+};
+
+const VARIANT_FILE_PATTERN = /^([a-f0-9]{16})-(\d+)\.(avif|webp)$/;
+
+// GET /img/<empreinte>-<largeur>.<format> : variante calculée à la demande, puis gardée par le CDN.
+export const handleImageRequest = async ({
+  params,
+  url,
+  site,
+}: Pick<APIContext, 'params' | 'url' | 'site'>) => {
+  const match = VARIANT_FILE_PATTERN.exec(params.file ?? '');
+  const width = Number(match?.[2]);
+  const allowedWidth = width === PLACEHOLDER_WIDTH || (IMAGE_WIDTHS as readonly number[]).includes(width);
+  if (!match || !allowedWidth) return json({ ok: false, error: 'Image not found' }, 404);
+  const hash = match[1];
+  const format = match[3] as ImageFormat;
+
+  try {
+    const local = findLocalImageByHash(hash);
+    const remoteSrc = url.searchParams.get('src') ?? '';
+    let input: Buffer;
+    if (local) {
+      input = await loadLocalImageSource(local.path, getSiteOrigin(site));
+    } else if (remoteSrc && isAllowedRemoteImage(remoteSrc) && hashImageSource(remoteSrc) === hash) {
+      input = await fetchImageSource(remoteSrc);
+    } else {
+      return json({ ok: false, error: 'Image not found' }, 404);
+    }
+
+    const body = await renderImageVariant(input, width, format);
+    return new Response(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': IMAGE_MIME_TYPES[format],
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImageSourceError) {
+      console.warn(error.message);
+      return json({ ok: false, error: 'Image unavailable' }, error.status);
+    }
+    console.warn('Image variant failed', error);
+    return json({ ok: false, error: 'Image unavailable' }, 500);
+  }
+};
@@ -0,0 +1,170 @@
+import { createHash } from 'node:crypto';
+import manifestData from '../data/image-manifest.json';
+import { getEnvValue } from './env';
+
+// Largeurs standard des variantes, du mobile au plein écran Retina.
+export const IMAGE_WIDTHS = [320, 640, 960, 1280, 1600, 2048] as const;
+
+// Miniature floue affichée pendant le chargement des images distantes.
+export const PLACEHOLDER_WIDTH = 24;
+
+export const IMAGE_FORMATS = ['avif', 'webp'] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export const IMAGE_MIME_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+};
+
+// Attributs sizes partagés par les pages, pour que le navigateur choisisse la même variante partout.
+export const IMAGE_SIZES = {
+  hero: '100vw',
+  artwork: '(max-width: 960px) 100vw, 50vw',
+  artworkGallery: '(max-width: 960px) 50vw, 25vw',
+  grid: '(max-width: 960px) 100vw, 50vw',
+} as const;
+
+export const IMAGE_MANIFEST_VERSION = 1;
+
+export type LocalImageEntry = {
+  hash: string;
+  width: number;
+  height: number;
+  placeholder: string;
+};
+
+export type ImageManifest = {
+  version: number;
+  generatedAt: string | null;
+  images: Record<string, LocalImageEntry>;
+};
+
+export type ImageSource = {
+  type: string;
+  srcSet: string;
+};
+
+export type ResponsiveImage = {
+  src: string;
+  sources: ImageSource[];
+  sizes: string;
+  width: number | null;
+  height: number | null;
+  placeholder: string | null;
+};
+
+const loadManifest = () => {
+  const manifest = manifestData as ImageManifest;
+  if (manifest.version !== IMAGE_MANIFEST_VERSION || !manifest.images) {
+    console.warn(`Image manifest ignored: version ${manifest.version}, expected ${IMAGE_MANIFEST_VERSION}`);
+    return {};
+  }
+  return manifest.images;
+};
+
+let localImages: Record<string, LocalImageEntry> | null = null;
+
+const getLocalImages = () => (localImages ??= loadManifest());
+
+export const hashImageSource = (value: string | Uint8Array) =>
+  createHash('sha256').update(value).digest('hex').slice(0, 16);
+
+const toPublicPath = (src: string) => {
+  if (!src.startsWith('/') || src.startsWith('//')) return null;
+  const path = src.split(/[?#]/)[0];
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+};
+
+export const getLocalImage = (src: string) => {
+  const path = toPublicPath(src);
+  return path ? (getLocalImages()[path] ?? null) : null;
+};
+
+export const findLocalImageByHash = (hash: string) => {
+  for (const [path, entry] of Object.entries(getLocalImages())) {
+    if (entry.hash === hash) return { path, entry };
+  }
+  return null;
+};
+
+// Seules les images de la boutique WordPress (et les hôtes ajoutés via IMAGE_REMOTE_HOSTS) passent par le pipeline.
+let remoteHosts: Set<string> | null = null;
+
+const getRemoteHosts = () => {
+  if (remoteHosts) return remoteHosts;
+  const hosts = new Set<string>();
+  const wpBase = getEnvValue(['WP_API_BASE', 'PUBLIC_WP_API_BASE']);
+  if (wpBase) {
+    try {
+      hosts.add(new URL(wpBase).host);
+    } catch {
+      // Base WordPress invalide : wp.ts signale déjà l'erreur.
+    }
+  }
+  for (const host of (getEnvValue(['IMAGE_REMOTE_HOSTS']) ?? '').split(',')) {
+    if (host.trim()) hosts.add(host.trim().toLowerCase());
+  }
+  remoteHosts = hosts;
+  return hosts;
+};
+
+export const isAllowedRemoteImage = (src: string) => {
+  try {
+    const url = new URL(src);
+    return ['http:', 'https:'].includes(url.protocol) && getRemoteHosts().has(url.host);
+  } catch {
+    return false;
+  }
+};
+
+// Nom de fichier stable : empreinte du contenu (local) ou de l'URL (distant), largeur et format.
+export const getVariantPath = (hash: string, width: number, format: ImageFormat, remoteSrc?: string) => {
+  const file = `/img/${hash}-${width}.${format}`;
+  return remoteSrc ? `${file}?src=${encodeURIComponent(remoteSrc)}` : file;
+};
+
+export const getVariantWidths = (originalWidth: number | null) => {
+  if (!originalWidth) return [...IMAGE_WIDTHS];
+  const widths = IMAGE_WIDTHS.filter(width => width <= originalWidth);
+  return widths.length > 0 ? widths : [IMAGE_WIDTHS[0]];
+};
+
+const buildSources = (hash: string, widths: number[], remoteSrc?: string): ImageSource[] =>
+  IMAGE_FORMATS.map(format => ({
+    type: IMAGE_MIME_TYPES[format],
+    srcSet: widths.map(width => `${getVariantPath(hash, width, format, remoteSrc)} ${width}w`).join(', '),
+  }));
+
+// Image d'origine en repli ; les navigateurs récents prennent les variantes AVIF/WebP.
+export const getResponsiveImage = (src: string, sizes: string = IMAGE_SIZES.grid): ResponsiveImage => {
+  const local = getLocalImage(src);
+  if (local) {
+    return {
+      src,
+      sources: buildSources(local.hash, getVariantWidths(local.width)),
+      sizes,
+      width: local.width,
+      height: local.height,
+      placeholder: local.placeholder,
+    };
+  }
+
+  if (isAllowedRemoteImage(src)) {
+    const hash = hashImageSource(src);
+    return {
+      src,
+      sources: buildSources(hash, getVariantWidths(null), src),
+      sizes,
+      width: null,
+      height: null,
+      placeholder: getVariantPath(hash, PLACEHOLDER_WIDTH, 'webp', src),
+    };
+  }
+
+  return { src, sources: [], sizes, width: null, height: null, placeholder: null };
+};
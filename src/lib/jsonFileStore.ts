@@ -0,0 +1,51 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+
+export type JsonFile<T> = {
+  read(): Promise<T>;
+  // Lecture, modification et réécriture sans qu'une autre écriture de l'instance s'intercale.
+  mutate<R>(fn: (data: T) => R): Promise<R>;
+};
+
+// Un seul fichier réécrit en entier : adapté au développement et aux serveurs à instance unique.
+// parse reçoit null quand le fichier n'existe pas encore.
+export const createJsonFile = <T>(path: string, parse: (raw: unknown) => T): JsonFile<T> => {
+  const filePath = resolve(path);
+  // Toutes les écritures passent par cette file pour éviter les pertes concurrentes.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async () => {
+    try {
+      return parse(JSON.parse(await readFile(filePath, 'utf8')));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return parse(null);
+      throw error;
+    }
+  };
+
+  const write = async (data: T) => {
+    await mkdir(dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, `${JSON.stringify(data, null, 2)}\n`, 'utf8');
+    await rename(tmpPath, filePath);
+  };
+
+  const mutate = <R>(fn: (data: T) => R) => {
+    const run = queue.then(async () => {
+      const data = await read();
+      const result = fn(data);
+      await write(data);
+      return result;
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return { read, mutate };
+};
+
+// Liste d'enregistrements rangée sous une clé, ex. { version: 1, orders: [...] }.
+export const readRecordList = <T>(raw: unknown, key: string): T[] => {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>)[key] : null;
+  return Array.isArray(value) ? (value as T[]) : [];
+};
@@ -0,0 +1,85 @@
+import { randomUUID } from 'node:crypto';
+import { getEnvValue } from './env';
+
+export type KvCommand = Array<string | number>;
+
+export type KvClient = {
+  command<T = unknown>(...args: KvCommand): Promise<T>;
+  pipeline<T = unknown>(commands: KvCommand[]): Promise<T[]>;
+};
+
+type KvReply<T> = { result?: T; error?: string };
+
+// API REST façon Upstash / Vercel KV : commandes Redis envoyées en JSON.
+export const createKvClient = (url: string, token: string): KvClient => {
+  const base = url.replace(/\/$/, '');
+  const post = async <T>(path: string, body: unknown, label: string) => {
+    const res = await fetch(`${base}${path}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw new Error(`KV ${label} failed: ${res.status} ${res.statusText}`);
+    return (await res.json()) as T;
+  };
+
+  return {
+    command: async <T>(...args: KvCommand) => {
+      const reply = await post<KvReply<T>>('', args, `command ${args[0]}`);
+      if (reply.error) throw new Error(`KV command ${args[0]} failed: ${reply.error}`);
+      return reply.result as T;
+    },
+    pipeline: async <T>(commands: KvCommand[]) => {
+      const replies = await post<Array<KvReply<T>>>('/pipeline', commands, 'pipeline');
+      const failed = replies.find(reply => reply.error);
+      if (failed) throw new Error(`KV pipeline failed: ${failed.error}`);
+      return replies.map(reply => reply.result as T);
+    },
+  };
+};
+
+export const isKvConfigured = () =>
+  Boolean(
+    getEnvValue(['KV_REST_API_URL', 'UPSTASH_REDIS_REST_URL']) &&
+      getEnvValue(['KV_REST_API_TOKEN', 'UPSTASH_REDIS_REST_TOKEN'])
+  );
+
+let kvClient: KvClient | null = null;
+
+// setting : la variable qui a demandé KV, pour un message d'erreur explicite.
+export const getKvClient = (setting: string) => {
+  if (kvClient) return kvClient;
+  const url = getEnvValue(['KV_REST_API_URL', 'UPSTASH_REDIS_REST_URL']);
+  const token = getEnvValue(['KV_REST_API_TOKEN', 'UPSTASH_REDIS_REST_TOKEN']);
+  if (!url || !token) throw new Error(`${setting}=kv requires KV_REST_API_URL and KV_REST_API_TOKEN`);
+  kvClient = createKvClient(url, token);
+  return kvClient;
+};
+
+// Libère un verrou seulement s'il appartient encore à son détenteur.
+export const RELEASE_LOCK_SCRIPT = `if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end return 0`;
+
+const LOCK_RETRY_MS = 100;
+
+// Section critique partagée par toutes les instances : SET NX avec expiration, pour qu'une
+// instance arrêtée en pleine écriture ne bloque pas la clé indéfiniment.
+export const withKvLock = async <T>(
+  kv: KvClient,
+  key: string,
+  fn: () => Promise<T>,
+  { ttlMs = 30_000, waitMs = 10_000 } = {}
+): Promise<T> => {
+  const token = randomUUID();
+  const deadline = Date.now() + waitMs;
+  while (!(await kv.command<string | null>('SET', key, token, 'NX', 'PX', ttlMs))) {
+    if (Date.now() >= deadline) throw new Error(`KV lock ${key} is busy`);
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+  try {
+    return await fn();
+  } finally {
+    await kv.command('EVAL', RELEASE_LOCK_SCRIPT, 1, key, token).catch(error => {
+      console.warn('KV lock release failed', key, error);
+    });
+  }
+};
@@ -0,0 +1,150 @@
+import { getEnvValue, isServerlessRuntime } from './env';
+import { createJsonFile, readRecordList } from './jsonFileStore';
+import { getKvClient, isKvConfigured, type KvClient } from './kv';
+import type { LeadRecord } from './leads';
+
+export interface LeadStore {
+  list(): Promise<LeadRecord[]>;
+  get(id: string): Promise<LeadRecord | null>;
+  insert(record: LeadRecord): Promise<void>;
+  // Avec expectedUpdatedAt, l'écriture n'a lieu que si la demande n'a pas changé depuis sa lecture ;
+  // sinon LeadUpdateConflictError.
+  update(record: LeadRecord, expectedUpdatedAt?: string): Promise<void>;
+}
+
+export class LeadUpdateConflictError extends Error {
+  constructor(readonly id: string) {
+    super(`Lead ${id} was changed concurrently`);
+    this.name = 'LeadUpdateConflictError';
+  }
+}
+
+// Les demandes enregistrées avant le suivi n'ont pas de date de modification.
+const lastUpdate = (record: LeadRecord) => record.updatedAt ?? record.createdAt;
+
+const checkUnchanged = (current: LeadRecord, expectedUpdatedAt?: string) => {
+  if (expectedUpdatedAt !== undefined && lastUpdate(current) !== expectedUpdatedAt) {
+    throw new LeadUpdateConflictError(current.id);
+  }
+};
+
+export const createMemoryLeadStore = (initial: LeadRecord[] = []): LeadStore => {
+  const records = new Map(initial.map(record => [record.id, record]));
+  return {
+    list: async () => [...records.values()],
+    get: async id => records.get(id) ?? null,
+    insert: async record => {
+      if (records.has(record.id)) throw new Error(`Duplicate lead ${record.id}`);
+      records.set(record.id, record);
+    },
+    update: async (record, expectedUpdatedAt) => {
+      const current = records.get(record.id);
+      if (!current) throw new Error(`Unknown lead ${record.id}`);
+      checkUnchanged(current, expectedUpdatedAt);
+      records.set(record.id, record);
+    },
+  };
+};
+
+type JsonFileData = { version: 1; leads: LeadRecord[] };
+
+export const createJsonFileLeadStore = (path: string): LeadStore => {
+  const { read, mutate } = createJsonFile<JsonFileData>(path, raw => ({
+    version: 1,
+    leads: readRecordList<LeadRecord>(raw, 'leads'),
+  }));
+
+  return {
+    list: async () => (await read()).leads,
+    get: async id => (await read()).leads.find(record => record.id === id) ?? null,
+    insert: record =>
+      mutate(data => {
+        if (data.leads.some(existing => existing.id === record.id)) {
+          throw new Error(`Duplicate lead ${record.id}`);
+        }
+        data.leads.push(record);
+      }),
+    update: (record, expectedUpdatedAt) =>
+      mutate(data => {
+        const index = data.leads.findIndex(existing => existing.id === record.id);
+        if (index === -1) throw new Error(`Unknown lead ${record.id}`);
+        checkUnchanged(data.leads[index], expectedUpdatedAt);
+        data.leads[index] = record;
+      }),
+  };
+};
+
+// Réécrit la demande seulement si sa date de modification est celle attendue.
+const COMPARE_AND_SET = `local raw = redis.call('GET', KEYS[1])
+if not raw then return -1 end
+local current = cjson.decode(raw)
+if (current.updatedAt or current.createdAt) ~= ARGV[2] then return 0 end
+redis.call('SET', KEYS[1], ARGV[1])
+return 1`;
+
+// Une clé par demande et un index des identifiants, partagés par toutes les instances.
+export const createKvLeadStore = (kv: KvClient, prefix = 'mlag:leads:'): LeadStore => {
+  const leadKey = (id: string) => `${prefix}lead:${id}`;
+  const indexKey = `${prefix}ids`;
+
+  return {
+    list: async () => {
+      const ids = await kv.command<string[]>('SMEMBERS', indexKey);
+      if (ids.length === 0) return [];
+      const raws = await kv.command<Array<string | null>>('MGET', ...ids.map(leadKey));
+      return raws.flatMap(raw => (raw ? [JSON.parse(raw) as LeadRecord] : []));
+    },
+    get: async id => {
+      const raw = await kv.command<string | null>('GET', leadKey(id));
+      return raw ? (JSON.parse(raw) as LeadRecord) : null;
+    },
+    insert: async record => {
+      const created = await kv.command<string | null>('SET', leadKey(record.id), JSON.stringify(record), 'NX');
+      if (!created) throw new Error(`Duplicate lead ${record.id}`);
+      await kv.command('SADD', indexKey, record.id);
+    },
+    update: async (record, expectedUpdatedAt) => {
+      if (expectedUpdatedAt === undefined) {
+        const updated = await kv.command<string | null>('SET', leadKey(record.id), JSON.stringify(record), 'XX');
+        if (!updated) throw new Error(`Unknown lead ${record.id}`);
+        return;
+      }
+      const result = await kv.command<number>(
+        'EVAL',
+        COMPARE_AND_SET,
+        1,
+        leadKey(record.id),
+        JSON.stringify(record),
+        expectedUpdatedAt
+      );
+      if (result === -1) throw new Error(`Unknown lead ${record.id}`);
+      if (result === 0) throw new LeadUpdateConflictError(record.id);
+    },
+  };
+};
+
+let leadStore: LeadStore | null = null;
+
+export const getLeadStore = () => {
+  if (leadStore) return leadStore;
+  const kind = (getEnvValue(['LEADS_STORE']) ?? (isKvConfigured() ? 'kv' : 'file')).trim().toLowerCase();
+  // Sur Vercel, data/ n'est ni inscriptible ni conservé : les demandes seraient perdues.
+  if (kind !== 'kv' && isServerlessRuntime()) {
+    throw new Error(`LEADS_STORE=${kind} does not persist on Vercel; use LEADS_STORE=kv`);
+  }
+
+  switch (kind) {
+    case 'memory':
+      leadStore = createMemoryLeadStore();
+      break;
+    case 'file':
+      leadStore = createJsonFileLeadStore(getEnvValue(['LEADS_STORE_PATH']) ?? 'data/leads.json');
+      break;
+    case 'kv':
+      leadStore = createKvLeadStore(getKvClient('LEADS_STORE'));
+      break;
+    default:
+      throw new Error(`Unknown LEADS_STORE "${kind}"`);
+  }
+  return leadStore;
+};
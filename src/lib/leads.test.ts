@@ -0,0 +1,91 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, describe, expect, it, vi } from 'vitest';
+import { createJsonFileLeadStore, createMemoryLeadStore, type LeadStore } from './leadStore';
+import {
+  attachLeadCertificate,
+  claimLeadCertificate,
+  LeadError,
+  releaseLeadCertificateClaim,
+  type LeadRecord,
+} from './leads';
+
+const sale: LeadRecord = {
+  id: 'lead-1',
+  kind: 'inquiry',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  lang: 'es',
+  name: 'Ana Torres',
+  email: 'ana@example.com',
+  phone: null,
+  subject: null,
+  message: 'Me interesa esta obra.',
+  consent: false,
+  productId: 42,
+  productSlug: 'tormenta',
+  productTitle: 'Tormenta',
+  sourcePath: '/obras/tormenta',
+  status: 'sold',
+  updatedAt: '2026-10-02T10:00:00.000Z',
+  notes: [],
+  certificateNumber: null,
+  certificateClaimedAt: null,
+  quote: null,
+};
+
+const tempDir = await mkdtemp(join(tmpdir(), 'mlag-leads-'));
+afterAll(() => rm(tempDir, { recursive: true, force: true }));
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const withSale = async (store: LeadStore) => {
+  await store.insert(sale);
+  return store;
+};
+
+describe.each([
+  ['memory', () => createMemoryLeadStore()],
+  ['file', () => createJsonFileLeadStore(join(tempDir, `leads-${Date.now()}-${Math.random()}.json`))],
+])('lead certificate claim with the %s store', (_name, createStore: () => LeadStore) => {
+  it('lets only one of two simultaneous requests issue the certificate', async () => {
+    const store = await withSale(createStore());
+    const results = await Promise.allSettled([
+      claimLeadCertificate(sale.id, store),
+      claimLeadCertificate(sale.id, store),
+    ]);
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected');
+    expect(rejected?.reason).toBeInstanceOf(LeadError);
+    expect(rejected?.reason).toMatchObject({ status: 409 });
+  });
+
+  it('refuses a second certificate once one is attached', async () => {
+    const store = await withSale(createStore());
+    await claimLeadCertificate(sale.id, store);
+    const attached = await attachLeadCertificate(sale.id, 'COA-20261018-TORMEN-00001-ABCD', store);
+    expect(attached.certificateClaimedAt).toBeNull();
+    await expect(claimLeadCertificate(sale.id, store)).rejects.toMatchObject({
+      message: 'Lead is not eligible for a certificate',
+    });
+  });
+
+  it('can be claimed again after a failed issue is released', async () => {
+    const store = await withSale(createStore());
+    const claimed = await claimLeadCertificate(sale.id, store);
+    await expect(claimLeadCertificate(sale.id, store)).rejects.toMatchObject({
+      message: 'Certificate is already being issued',
+    });
+    await releaseLeadCertificateClaim(claimed, store);
+    await expect(claimLeadCertificate(sale.id, store)).resolves.toMatchObject({ id: sale.id });
+  });
+
+  it('takes over a claim left by an interrupted issue', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const store = await withSale(createStore());
+    await claimLeadCertificate(sale.id, store);
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+    await expect(claimLeadCertificate(sale.id, store)).resolves.toMatchObject({ id: sale.id });
+  });
+});
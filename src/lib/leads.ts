@@ -0,0 +1,524 @@
+import type { APIContext } from 'astro';
+import { Buffer } from 'node:buffer';
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { parseContentLang, type ContentLang } from './artworkTranslations';
+import { getEnvValue } from './env';
+import { json, readJsonBody } from './http';
+import { getLeadStore, LeadUpdateConflictError, type LeadStore } from './leadStore';
+import { getNotifier, type Notifier } from './notifier';
+import { describeQuote, parseQuoteDestination, quoteProduct, type ArtworkQuote } from './quote';
+import { getProductBySlug, type ProductCard } from './wp';
+
+export type LeadKind = 'contact' | 'inquiry' | 'newsletter';
+
+export const LEAD_STATUSES = ['new', 'contacted', 'reserved', 'sold', 'lost'] as const;
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export type LeadNote = { at: string; author: string; text: string };
+
+export type LeadRecord = {
+  id: string;
+  kind: LeadKind;
+  createdAt: string;
+  lang: ContentLang;
+  name: string | null;
+  email: string;
+  phone: string | null;
+  subject: string | null;
+  message: string | null;
+  consent: boolean;
+  productId: number | null;
+  productSlug: string | null;
+  productTitle: string | null;
+  sourcePath: string | null;
+  status: LeadStatus;
+  updatedAt: string;
+  notes: LeadNote[];
+  certificateNumber: string | null;
+  // Émission du certificat en cours depuis cette date : une seconde émission est refusée.
+  certificateClaimedAt: string | null;
+  // Devis taxes et livraison quand le visiteur a indiqué une destination.
+  quote: ArtworkQuote | null;
+};
+
+export type LeadSubmission = {
+  kind?: string;
+  lang?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  subject?: string;
+  message?: string;
+  consent?: string | boolean;
+  productSlug?: string;
+  sourcePath?: string;
+  zip?: string;
+  state?: string;
+  country?: string;
+  // Champs anti-spam : piège invisible et jeton horodaté posé au rendu du formulaire.
+  website?: string;
+  token?: string;
+};
+
+export class LeadError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = 'LeadError';
+  }
+}
+
+export const LEAD_KINDS: LeadKind[] = ['contact', 'inquiry', 'newsletter'];
+const TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MIN_FILL_MS = 3000;
+
+const getMinFillMs = () => {
+  const parsed = Number(getEnvValue(['LEADS_MIN_FILL_MS']));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_MIN_FILL_MS;
+};
+
+// Sans secret le jeton n'est qu'un horodatage : il arrête les robots naïfs, pas les autres.
+const getTokenSecret = () => getEnvValue(['LEADS_SECRET', 'COA_SECRET'])?.trim() || null;
+
+const signIssuedAt = (issuedAt: string, secret: string) =>
+  createHmac('sha256', secret).update(`lead-form:${issuedAt}`).digest('base64url').slice(0, 22);
+
+export const createLeadFormToken = (now = Date.now()) => {
+  const issuedAt = String(now);
+  const secret = getTokenSecret();
+  return secret ? `${issuedAt}.${signIssuedAt(issuedAt, secret)}` : issuedAt;
+};
+
+type TokenCheck = 'ok' | 'too-fast' | 'invalid';
+
+const checkLeadFormToken = (token: string | undefined, now = Date.now()): TokenCheck => {
+  const [issuedAt = '', signature = ''] = (token ?? '').split('.');
+  const issuedAtMs = Number(issuedAt);
+  if (!/^\d+$/.test(issuedAt) || now - issuedAtMs > TOKEN_MAX_AGE_MS || issuedAtMs > now) {
+    return 'invalid';
+  }
+  const secret = getTokenSecret();
+  if (secret) {
+    const expected = Buffer.from(signIssuedAt(issuedAt, secret));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) return 'invalid';
+  }
+  return now - issuedAtMs < getMinFillMs() ? 'too-fast' : 'ok';
+};
+
+const cleanField = (value: unknown, maxLength: number) =>
+  typeof value === 'string' ? value.replace(/\r\n?/g, '\n').trim().slice(0, maxLength) || null : null;
+
+const EMAIL_PATTERN = /^[^\s@<>"]+@[^\s@<>"]+\.[^\s@<>"]+$/;
+
+const CHECKED_VALUES = ['on', 'yes', 'si', 'sí', 'true', '1'];
+
+const isChecked = (value: unknown) =>
+  value === true || (typeof value === 'string' && CHECKED_VALUES.includes(value.toLowerCase()));
+
+// Chemin relatif au site seulement : le champ sert aussi de destination de redirection.
+export const sanitizeSourcePath = (value: unknown) =>
+  typeof value === 'string' && /^\/(?!\/)[^\s\\]*$/.test(value) ? value.slice(0, 300) : null;
+
+type NormalizedLead = Omit<
+  LeadRecord,
+  | 'id'
+  | 'createdAt'
+  | 'productId'
+  | 'productTitle'
+  | 'status'
+  | 'updatedAt'
+  | 'notes'
+  | 'certificateNumber'
+  | 'certificateClaimedAt'
+  | 'quote'
+>;
+
+// Chaque route n'accepte que ses propres formulaires ; le premier type est celui par défaut.
+export const validateLeadSubmission = (
+  submission: LeadSubmission,
+  kinds: LeadKind[] = LEAD_KINDS
+): NormalizedLead => {
+  const kind = submission.kind ? kinds.find(value => value === submission.kind) : kinds[0];
+  if (!kind) throw new LeadError('Unexpected form kind');
+
+  const email = cleanField(submission.email, 200)?.toLowerCase() ?? '';
+  if (!EMAIL_PATTERN.test(email)) throw new LeadError('A valid email is required');
+
+  const message = cleanField(submission.message, 5000);
+  if (kind !== 'newsletter' && !message) throw new LeadError('A message is required');
+
+  const consent = isChecked(submission.consent);
+  if (kind === 'newsletter' && !consent) throw new LeadError('Consent is required');
+
+  const productSlug = cleanField(submission.productSlug, 200);
+  return {
+    kind: kind === 'contact' && productSlug ? 'inquiry' : kind,
+    lang: parseContentLang(submission.lang) ?? 'es',
+    name: cleanField(submission.name, 120),
+    email,
+    phone: cleanField(submission.phone, 40),
+    subject: cleanField(submission.subject, 200),
+    message,
+    consent,
+    productSlug,
+    sourcePath: sanitizeSourcePath(submission.sourcePath),
+  };
+};
+
+const kindLabels: Record<LeadKind, string> = {
+  contact: 'Contact',
+  inquiry: 'Artwork inquiry',
+  newsletter: 'Newsletter signup',
+};
+
+export const buildLeadNotification = (lead: LeadRecord) => {
+  const subject = [
+    `[${kindLabels[lead.kind]}]`,
+    lead.productTitle ?? lead.subject ?? lead.name ?? lead.email,
+  ].join(' ');
+  const lines = [
+    `Name: ${lead.name ?? '—'}`,
+    `Email: ${lead.email}`,
+    `Phone: ${lead.phone ?? '—'}`,
+    `Language: ${lead.lang}`,
+    ...(lead.productSlug ? [`Artwork: ${lead.productTitle ?? lead.productSlug} (${lead.productSlug})`] : []),
+    ...(lead.subject ? [`Subject: ${lead.subject}`] : []),
+    ...(lead.sourcePath ? [`Page: ${lead.sourcePath}`] : []),
+    ...(lead.quote ? ['', ...describeQuote(lead.quote)] : []),
+    '',
+    lead.message ?? '',
+  ];
+  return {
+    event: `lead.${lead.kind}`,
+    subject,
+    text: lines.join('\n').trim(),
+    replyTo: lead.email,
+    data: { lead },
+  };
+};
+
+// Une destination invalide ne doit pas faire perdre la demande : le devis est simplement omis.
+const quoteLead = (product: ProductCard, submission: LeadSubmission) => {
+  if (!submission.zip && !submission.state && !submission.country) return null;
+  try {
+    return quoteProduct(product, parseQuoteDestination(submission));
+  } catch {
+    return null;
+  }
+};
+
+export type SubmitResult = { ok: true; lead: LeadRecord | null; spam: boolean };
+
+// Le stockage et l'envoi sont indépendants : la demande n'est perdue que si les deux échouent.
+export const submitLead = async (
+  submission: LeadSubmission,
+  options: { kinds?: LeadKind[]; store?: LeadStore; notifier?: Notifier } = {}
+): Promise<SubmitResult> => {
+  const tokenCheck = checkLeadFormToken(submission.token);
+  if (tokenCheck === 'invalid') throw new LeadError('Form expired', 422);
+  // Un robot ne doit pas savoir qu'il a été repéré : réponse identique, rien n'est gardé.
+  if (submission.website?.trim() || tokenCheck === 'too-fast') {
+    return { ok: true, lead: null, spam: true };
+  }
+
+  const normalized = validateLeadSubmission(submission, options.kinds);
+  // Titre et identifiant viennent de WooCommerce, pas du navigateur.
+  const product = normalized.productSlug
+    ? await getProductBySlug(normalized.productSlug).catch(() => null)
+    : null;
+  const createdAt = new Date().toISOString();
+  const lead: LeadRecord = {
+    id: randomUUID(),
+    createdAt,
+    ...normalized,
+    productId: product?.id || null,
+    productSlug: product?.slug ?? normalized.productSlug,
+    productTitle: product?.title ?? null,
+    status: 'new',
+    updatedAt: createdAt,
+    notes: [],
+    certificateNumber: null,
+    certificateClaimedAt: null,
+    quote: product ? quoteLead(product, submission) : null,
+  };
+
+  const [stored, notified] = await Promise.allSettled([
+    (async () => (options.store ?? getLeadStore()).insert(lead))(),
+    (async () => (options.notifier ?? getNotifier()).send(buildLeadNotification(lead)))(),
+  ]);
+  if (stored.status === 'rejected') console.error('Lead store write failed', lead.id, stored.reason);
+  if (notified.status === 'rejected') console.error('Lead notification failed', lead.id, notified.reason);
+  if (stored.status === 'rejected' && notified.status === 'rejected') {
+    throw new LeadError('Lead could not be recorded', 503);
+  }
+  return { ok: true, lead, spam: false };
+};
+
+// Étapes suivantes autorisées : une vente est définitive, une piste perdue peut être reprise.
+const LEAD_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  new: ['contacted', 'reserved', 'sold', 'lost'],
+  contacted: ['reserved', 'sold', 'lost'],
+  reserved: ['contacted', 'sold', 'lost'],
+  sold: [],
+  lost: ['contacted'],
+};
+
+export const getNextLeadStatuses = (status: LeadStatus) => LEAD_TRANSITIONS[status];
+
+export const parseLeadStatus = (value: unknown): LeadStatus | null =>
+  LEAD_STATUSES.find(status => status === value) ?? null;
+
+// Les demandes enregistrées avant le suivi n'ont ni statut ni notes.
+const normalizeLeadRecord = (record: LeadRecord): LeadRecord => ({
+  ...record,
+  status: parseLeadStatus(record.status) ?? 'new',
+  updatedAt: record.updatedAt ?? record.createdAt,
+  notes: Array.isArray(record.notes) ? record.notes : [],
+  certificateNumber: record.certificateNumber ?? null,
+  certificateClaimedAt: record.certificateClaimedAt ?? null,
+  quote: record.quote ?? null,
+});
+
+export type LeadQuery = {
+  status?: LeadStatus | null;
+  kind?: LeadKind | null;
+  q?: string | null;
+};
+
+const foldText = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+export const listLeads = async (query: LeadQuery = {}, store: LeadStore = getLeadStore()) => {
+  const terms = query.q ? foldText(query.q).split(/\s+/).filter(Boolean) : [];
+  return (await store.list())
+    .map(normalizeLeadRecord)
+    .filter(lead => !query.status || lead.status === query.status)
+    .filter(lead => !query.kind || lead.kind === query.kind)
+    .filter(lead => {
+      if (terms.length === 0) return true;
+      const haystack = foldText(
+        [lead.name, lead.email, lead.phone, lead.productTitle, lead.productSlug, lead.message]
+          .filter(Boolean)
+          .join(' ')
+      );
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getLead = async (id: string, store: LeadStore = getLeadStore()) => {
+  const record = await store.get(id);
+  return record ? normalizeLeadRecord(record) : null;
+};
+
+const requireLead = async (id: string, store: LeadStore) => {
+  const lead = await getLead(id, store);
+  if (!lead) throw new LeadError('Lead not found', 404);
+  return lead;
+};
+
+export const updateLeadStatus = async (
+  id: string,
+  status: LeadStatus,
+  store: LeadStore = getLeadStore()
+) => {
+  const lead = await requireLead(id, store);
+  if (lead.status === status) return { lead, previous: status };
+  if (!LEAD_TRANSITIONS[lead.status].includes(status)) {
+    throw new LeadError(`Cannot move a ${lead.status} lead to ${status}`, 409);
+  }
+  const updated: LeadRecord = { ...lead, status, updatedAt: new Date().toISOString() };
+  await store.update(updated);
+  return { lead: updated, previous: lead.status };
+};
+
+export const addLeadNote = async (
+  id: string,
+  text: string,
+  author: string,
+  store: LeadStore = getLeadStore()
+) => {
+  const note = cleanField(text, 2000);
+  if (!note) throw new LeadError('Note is empty');
+  const lead = await requireLead(id, store);
+  const now = new Date().toISOString();
+  const updated: LeadRecord = {
+    ...lead,
+    notes: [...lead.notes, { at: now, author, text: note }],
+    updatedAt: now,
+  };
+  await store.update(updated);
+  return updated;
+};
+
+// Une vente avec une œuvre et un client nommé peut recevoir son certificat depuis la boîte de réception.
+export const canIssueLeadCertificate = (lead: LeadRecord) =>
+  lead.status === 'sold' && Boolean(lead.productSlug && lead.name) && !lead.certificateNumber;
+
+// Au-delà, une émission interrompue (instance arrêtée) peut être reprise.
+const CERTIFICATE_CLAIM_MS = 10 * 60 * 1000;
+
+const isClaimLive = (lead: LeadRecord) =>
+  Boolean(lead.certificateClaimedAt) &&
+  Date.now() - Date.parse(lead.certificateClaimedAt as string) < CERTIFICATE_CLAIM_MS;
+
+// Vérification et marque d'émission écrites ensemble : de deux demandes simultanées, une seule
+// obtient le droit d'émettre le certificat de la vente.
+export const claimLeadCertificate = async (id: string, store: LeadStore = getLeadStore()) => {
+  const lead = await requireLead(id, store);
+  if (!canIssueLeadCertificate(lead)) {
+    throw new LeadError('Lead is not eligible for a certificate', 409);
+  }
+  if (isClaimLive(lead)) throw new LeadError('Certificate is already being issued', 409);
+  const now = new Date().toISOString();
+  const claimed: LeadRecord = { ...lead, certificateClaimedAt: now, updatedAt: now };
+  try {
+    await store.update(claimed, lead.updatedAt);
+  } catch (error) {
+    if (error instanceof LeadUpdateConflictError) {
+      throw new LeadError('Certificate is already being issued', 409);
+    }
+    throw error;
+  }
+  return claimed;
+};
+
+// Émission échouée : la vente peut recevoir son certificat lors d'un nouvel essai.
+export const releaseLeadCertificateClaim = async (
+  claimed: LeadRecord,
+  store: LeadStore = getLeadStore()
+) => {
+  await store.update(
+    { ...claimed, certificateClaimedAt: null, updatedAt: new Date().toISOString() },
+    claimed.updatedAt
+  );
+};
+
+export const attachLeadCertificate = async (
+  id: string,
+  certificateNumber: string,
+  store: LeadStore = getLeadStore()
+) => {
+  const lead = await requireLead(id, store);
+  const updated: LeadRecord = {
+    ...lead,
+    certificateNumber,
+    certificateClaimedAt: null,
+    updatedAt: new Date().toISOString(),
+  };
+  await store.update(updated);
+  return updated;
+};
+
+const CSV_COLUMNS: Array<[string, (lead: LeadRecord) => unknown]> = [
+  ['id', lead => lead.id],
+  ['created_at', lead => lead.createdAt],
+  ['status', lead => lead.status],
+  ['kind', lead => lead.kind],
+  ['name', lead => lead.name],
+  ['email', lead => lead.email],
+  ['phone', lead => lead.phone],
+  ['lang', lead => lead.lang],
+  ['artwork', lead => lead.productTitle],
+  ['artwork_slug', lead => lead.productSlug],
+  ['source_page', lead => lead.sourcePath],
+  ['quote_total_usd', lead => (lead.quote?.total != null ? (lead.quote.total / 100).toFixed(2) : null)],
+  ['subject', lead => lead.subject],
+  ['message', lead => lead.message],
+  ['newsletter_consent', lead => (lead.consent ? 'yes' : 'no')],
+  ['certificate', lead => lead.certificateNumber],
+  ['notes', lead => lead.notes.map(note => `${note.at} ${note.author}: ${note.text}`).join('\n')],
+  ['updated_at', lead => lead.updatedAt],
+];
+
+// Un tableur exécute les cellules qui commencent par = + - @ : on les neutralise.
+const csvCell = (value: unknown) => {
+  const text = value == null ? '' : String(value);
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const leadsToCsv = (leads: LeadRecord[]) =>
+  [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...leads.map(lead => CSV_COLUMNS.map(([, read]) => csvCell(read(lead))).join(',')),
+  ].join('\r\n') + '\r\n';
+
+const messages = {
+  es: {
+    invalidRequest: 'Solicitud no válida',
+    'Form expired': 'El formulario ha caducado. Recarga la página e inténtalo de nuevo.',
+    'A valid email is required': 'Introduce un correo electrónico válido.',
+    'A message is required': 'Escribe un mensaje.',
+    'Consent is required': 'Debes aceptar recibir nuestras novedades.',
+    'Lead could not be recorded': 'No pudimos enviar tu mensaje. Inténtalo más tarde.',
+  },
+  en: {
+    invalidRequest: 'Invalid request',
+    'Form expired': 'This form has expired. Reload the page and try again.',
+    'A valid email is required': 'Please enter a valid email address.',
+    'A message is required': 'Please write a message.',
+    'Consent is required': 'Please agree to receive our news.',
+    'Lead could not be recorded': 'We could not send your message. Please try again later.',
+  },
+} satisfies Record<ContentLang, Record<string, string>>;
+
+const translateError = (lang: ContentLang, message: string) =>
+  (messages[lang] as Record<string, string>)[message] ?? messages[lang].invalidRequest;
+
+const readSubmission = async (request: Request) => {
+  const contentType = request.headers.get('Content-Type') ?? '';
+  if (contentType.includes('application/json')) return readJsonBody<LeadSubmission>(request);
+  try {
+    const form = await request.formData();
+    return Object.fromEntries(
+      [...form.entries()].filter(([, value]) => typeof value === 'string')
+    ) as LeadSubmission;
+  } catch {
+    return null;
+  }
+};
+
+const withStatus = (path: string, status: 'sent' | 'error') => {
+  const url = new URL(path, 'http://localhost');
+  url.searchParams.set('lead', status);
+  return `${url.pathname}${url.search}`;
+};
+
+// Réponse JSON pour le script des formulaires, redirection 303 quand JavaScript est absent.
+export const handleLeadRequest = async (
+  { request }: Pick<APIContext, 'request'>,
+  kinds: LeadKind[]
+) => {
+  const wantsJson = (request.headers.get('Accept') ?? '').includes('application/json');
+  const submission = await readSubmission(request);
+  const lang = parseContentLang(submission?.lang) ?? 'es';
+  const back = sanitizeSourcePath(submission?.sourcePath) ?? (lang === 'en' ? '/en/contact' : '/contacto');
+  const respond = (status: number, body: { ok: boolean; error?: string }) =>
+    wantsJson
+      ? json(body, status)
+      : new Response(null, {
+          status: 303,
+          headers: { Location: withStatus(back, body.ok ? 'sent' : 'error') },
+        });
+
+  if (!submission) return respond(400, { ok: false, error: messages[lang].invalidRequest });
+
+  try {
+    await submitLead(submission, { kinds });
+    return respond(201, { ok: true });
+  } catch (error) {
+    if (error instanceof LeadError) {
+      return respond(error.status, { ok: false, error: translateError(lang, error.message) });
+    }
+    console.warn('Lead submission failed', error);
+    return respond(500, { ok: false, error: translateError(lang, 'Lead could not be recorded') });
+  }
+};
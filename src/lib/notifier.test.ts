@@ -0,0 +1,63 @@
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createSmtpNotifier } from './notifier';
+
+let server: Server | null = null;
+
+afterEach(async () => {
+  if (server) await new Promise(resolve => server!.close(resolve));
+  server = null;
+});
+
+// Serveur SMTP sans STARTTLS qui accepte tout et note les commandes reçues.
+const startPlainServer = async () => {
+  const received: string[] = [];
+  server = createServer(socket => {
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', chunk => {
+      for (const line of chunk.toString('utf8').split('\r\n').filter(Boolean)) {
+        received.push(line);
+        if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+        else if (line === 'DATA') socket.write('354 go ahead\r\n');
+        else if (line === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write(line.startsWith('AUTH') ? '235 ok\r\n' : '250 ok\r\n');
+      }
+    });
+  });
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return { port: (server!.address() as AddressInfo).port, received };
+};
+
+const notification = { event: 'lead.contact', subject: 'Hola', text: 'Mensaje', data: {} };
+
+describe('SMTP notifier', () => {
+  it('refuses to authenticate over a connection without TLS', async () => {
+    const { port, received } = await startPlainServer();
+    const notifier = createSmtpNotifier({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'galeria',
+      password: 'secreto',
+      from: 'no-reply@example.com',
+      to: ['info@example.com'],
+    });
+
+    await expect(notifier.send(notification)).rejects.toThrow(/refusing to send credentials/);
+    expect(received.some(line => line.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('still relays without credentials', async () => {
+    const { port, received } = await startPlainServer();
+    const notifier = createSmtpNotifier({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      from: 'no-reply@example.com',
+      to: ['info@example.com'],
+    });
+
+    await notifier.send(notification);
+    expect(received).toContain('RCPT TO:<info@example.com>');
+  });
+});
@@ -0,0 +1,225 @@
+import { Buffer } from 'node:buffer';
+import { createHmac, randomUUID } from 'node:crypto';
+import { connect as netConnect, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { connect as tlsConnect } from 'node:tls';
+import { getBooleanEnv, getEnvValue, isServerlessRuntime } from './env';
+
+export type Notification = {
+  event: string;
+  subject: string;
+  text: string;
+  replyTo?: string | null;
+  data: Record<string, unknown>;
+};
+
+// Un canal d'envoi (courriel, Slack, CRM…) n'a qu'à implémenter cette méthode.
+export interface Notifier {
+  send(notification: Notification): Promise<void>;
+}
+
+export const createConsoleNotifier = (): Notifier => ({
+  send: async notification => {
+    console.info(`[notify] ${notification.subject}\n${notification.text}`);
+  },
+});
+
+// Corps JSON signé comme les webhooks WooCommerce : HMAC-SHA256 en base64.
+export const createWebhookNotifier = (url: string, secret?: string): Notifier => ({
+  send: async notification => {
+    const body = JSON.stringify(notification);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (secret) {
+      headers['X-MLAG-Signature'] = createHmac('sha256', secret).update(body).digest('base64');
+    }
+    const res = await fetch(url, { method: 'POST', headers, body });
+    if (!res.ok) throw new Error(`Notification webhook failed: ${res.status} ${res.statusText}`);
+  },
+});
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  // true : TLS dès la connexion (port 465) ; sinon STARTTLS si le serveur le propose, exigé pour s'authentifier.
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+};
+
+type SmtpReply = { code: number; text: string };
+
+const SMTP_TIMEOUT_MS = 15000;
+
+const createReplyReader = (socket: Socket) => {
+  let buffer = '';
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    // Une réponse se termine par la ligne dont le code est suivi d'un espace (« 250 OK »).
+    let match: RegExpMatchArray | null;
+    while ((match = buffer.match(/^(?:\d{3}-[^\r\n]*\r\n)*(\d{3})(?: [^\r\n]*)?\r\n/))) {
+      buffer = buffer.slice(match[0].length);
+      const reply = { code: Number(match[1]), text: match[0].trim() };
+      const waiter = waiters.shift();
+      if (waiter) waiter.resolve(reply);
+      else replies.push(reply);
+    }
+  };
+  const onFailure = (error?: Error) => {
+    failure = error ?? new Error('SMTP connection closed');
+    for (const waiter of waiters.splice(0)) waiter.reject(failure);
+  };
+  const onClose = () => onFailure();
+
+  socket.on('data', onData);
+  socket.on('error', onFailure);
+  socket.on('close', onClose);
+
+  return {
+    next: () =>
+      new Promise<SmtpReply>((resolve, reject) => {
+        const queued = replies.shift();
+        if (queued) return resolve(queued);
+        if (failure) return reject(failure);
+        waiters.push({ resolve, reject });
+      }),
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onFailure);
+      socket.off('close', onClose);
+    },
+  };
+};
+
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const buildMessage = (config: SmtpConfig, notification: Notification) => {
+  const domain = config.from.split('@')[1] ?? 'localhost';
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${config.to.join(', ')}`,
+    ...(notification.replyTo ? [`Reply-To: ${notification.replyTo}`] : []),
+    `Subject: ${encodeHeader(notification.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+  const body = Buffer.from(notification.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+};
+
+// Client SMTP minimal : une connexion par message, suffisant pour le volume de la galerie.
+export const createSmtpNotifier = (config: SmtpConfig): Notifier => ({
+  send: async notification => {
+    let socket: Socket = config.secure
+      ? tlsConnect({ host: config.host, port: config.port, servername: config.host })
+      : netConnect({ host: config.host, port: config.port });
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+    let reader = createReplyReader(socket);
+
+    const command = async (line: string | null, expected: number[]) => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await reader.next();
+      if (!expected.includes(reply.code)) {
+        throw new Error(`SMTP ${line?.split(' ')[0] ?? 'greeting'} rejected: ${reply.text}`);
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      let ehlo = await command(`EHLO ${hostname()}`, [250]);
+      let encrypted = config.secure;
+
+      if (!config.secure && /[\s-]STARTTLS\b/i.test(ehlo.text)) {
+        await command('STARTTLS', [220]);
+        reader.detach();
+        socket = tlsConnect({ socket, servername: config.host });
+        socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+        reader = createReplyReader(socket);
+        ehlo = await command(`EHLO ${hostname()}`, [250]);
+        encrypted = true;
+      }
+
+      if (config.user && config.password) {
+        // Sans TLS, AUTH PLAIN livrerait le mot de passe en clair à quiconque écoute la connexion.
+        if (!encrypted) {
+          throw new Error('SMTP server offers no STARTTLS; refusing to send credentials in clear text');
+        }
+        const credentials = Buffer.from(`\0${config.user}\0${config.password}`, 'utf8').toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${config.from}>`, [250]);
+      for (const recipient of config.to) await command(`RCPT TO:<${recipient}>`, [250, 251]);
+      await command('DATA', [354]);
+      // Un point seul en début de ligne terminerait le message : on le double.
+      const message = buildMessage(config, notification).replace(/^\./gm, '..');
+      await command(`${message}\r\n.`, [250]);
+      await command('QUIT', [221]).catch(() => undefined);
+    } finally {
+      reader.detach();
+      socket.destroy();
+    }
+  },
+});
+
+const parseRecipients = (value?: string) =>
+  (value ?? '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+let notifier: Notifier | null = null;
+
+export const getNotifier = () => {
+  if (notifier) return notifier;
+  const kind = (getEnvValue(['NOTIFIER']) ?? 'console').trim().toLowerCase();
+
+  // Sur Vercel, un message dans les journaux n'atteint personne.
+  if (kind === 'console' && isServerlessRuntime()) {
+    throw new Error('NOTIFIER=console reaches nobody on Vercel; use NOTIFIER=webhook or smtp');
+  }
+
+  switch (kind) {
+    case 'console':
+      notifier = createConsoleNotifier();
+      break;
+    case 'webhook': {
+      const url = getEnvValue(['NOTIFY_WEBHOOK_URL']);
+      if (!url) throw new Error('NOTIFIER=webhook requires NOTIFY_WEBHOOK_URL');
+      notifier = createWebhookNotifier(url, getEnvValue(['NOTIFY_WEBHOOK_SECRET']));
+      break;
+    }
+    case 'smtp': {
+      const host = getEnvValue(['SMTP_HOST']);
+      const from = getEnvValue(['NOTIFY_FROM', 'SMTP_FROM']);
+      const to = parseRecipients(getEnvValue(['NOTIFY_TO']));
+      if (!host || !from || to.length === 0) {
+        throw new Error('NOTIFIER=smtp requires SMTP_HOST, NOTIFY_FROM and NOTIFY_TO');
+      }
+      const port = Number(getEnvValue(['SMTP_PORT']) ?? 587);
+      notifier = createSmtpNotifier({
+        host,
+        port,
+        secure: getBooleanEnv(['SMTP_SECURE'], port === 465),
+        user: getEnvValue(['SMTP_USER']),
+        password: getEnvValue(['SMTP_PASSWORD']),
+        from,
+        to,
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown NOTIFIER "${kind}"`);
+  }
+  return notifier;
+};
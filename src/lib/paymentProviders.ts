@@ -0,0 +1,207 @@
+import { Buffer } from 'node:buffer';
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { getEnvValue } from './env';
+import type { CheckoutOrder } from './checkout';
+
+export type PaymentSession = { sessionId: string; redirectUrl: string };
+
+export type PaymentEventType = 'paid' | 'failed' | 'expired';
+
+const PAYMENT_EVENT_TYPES: PaymentEventType[] = ['paid', 'failed', 'expired'];
+
+export type PaymentEvent = {
+  type: PaymentEventType;
+  orderId: string;
+  sessionId: string;
+  customerEmail: string | null;
+  customerName: string | null;
+};
+
+export type CheckoutUrls = { successUrl: string; cancelUrl: string };
+
+// Un prestataire de paiement n'a qu'à implémenter ces deux méthodes.
+export interface PaymentProvider {
+  name: string;
+  // Durée de vie minimale d'une session chez le prestataire : l'œuvre reste bloquée au moins autant.
+  minHoldMs: number;
+  createSession(order: CheckoutOrder, urls: CheckoutUrls): Promise<PaymentSession>;
+  // null : notification authentique mais sans effet sur la commande.
+  parseCallback(rawBody: string, headers: Headers): PaymentEvent | null;
+}
+
+export class PaymentSignatureError extends Error {
+  constructor() {
+    super('Invalid payment callback signature');
+    this.name = 'PaymentSignatureError';
+  }
+}
+
+const hmacHex = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(payload).digest('hex');
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+type JsonObject = Record<string, unknown>;
+
+// Corps signé mais de forme libre : chaque champ est vérifié avant usage.
+const asObject = (value: unknown): JsonObject =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonObject) : {};
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : null);
+
+const parseJson = (rawBody: string) => {
+  try {
+    return asObject(JSON.parse(rawBody));
+  } catch {
+    throw new PaymentSignatureError();
+  }
+};
+
+const STRIPE_API = 'https://api.stripe.com/v1';
+const STRIPE_SIGNATURE_TOLERANCE_S = 300;
+
+// Stripe Checkout : session hébergée, puis webhook checkout.session.* signé (en-tête Stripe-Signature).
+export const createStripeProvider = (secretKey: string, webhookSecret: string): PaymentProvider => ({
+  name: 'stripe',
+  minHoldMs: 31 * 60 * 1000,
+  createSession: async (order, urls) => {
+    const body = new URLSearchParams({
+      mode: 'payment',
+      success_url: urls.successUrl,
+      cancel_url: urls.cancelUrl,
+      client_reference_id: order.id,
+      'metadata[order_id]': order.id,
+      'payment_intent_data[metadata][order_id]': order.id,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': order.currency,
+      'line_items[0][price_data][unit_amount]': String(order.amount),
+      'line_items[0][price_data][product_data][name]': order.description,
+      expires_at: String(Math.floor(Date.parse(order.expiresAt) / 1000)),
+      locale: order.lang,
+    });
+    if (order.customerEmail) body.set('customer_email', order.customerEmail);
+
+    const res = await fetch(`${STRIPE_API}/checkout/sessions`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        // Une nouvelle tentative pour la même commande ne crée pas une seconde session.
+        'Idempotency-Key': order.id,
+      },
+      body,
+    });
+    if (!res.ok) {
+      throw new Error(`Stripe checkout session failed: ${res.status} ${await res.text()}`);
+    }
+    const session = (await res.json()) as { id: string; url: string };
+    return { sessionId: session.id, redirectUrl: session.url };
+  },
+  parseCallback: (rawBody, headers) => {
+    const header = headers.get('Stripe-Signature') ?? '';
+    const timestamp = header.match(/(?:^|,)t=(\d+)/)?.[1];
+    const signatures = [...header.matchAll(/(?:^|,)v1=([a-f0-9]+)/g)].map(match => match[1]);
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!timestamp || age > STRIPE_SIGNATURE_TOLERANCE_S) throw new PaymentSignatureError();
+    const expected = hmacHex(`${timestamp}.${rawBody}`, webhookSecret);
+    if (!signatures.some(signature => safeEqual(signature, expected))) {
+      throw new PaymentSignatureError();
+    }
+
+    const event = parseJson(rawBody);
+    const session = asObject(asObject(event.data).object);
+    const orderId = asString(session.client_reference_id) ?? asString(asObject(session.metadata).order_id);
+    if (!orderId) return null;
+
+    const types: Record<string, PaymentEventType | undefined> = {
+      // Un virement ou un paiement différé arrive plus tard par async_payment_succeeded.
+      'checkout.session.completed': session.payment_status === 'paid' ? 'paid' : undefined,
+      'checkout.session.async_payment_succeeded': 'paid',
+      'checkout.session.async_payment_failed': 'failed',
+      'checkout.session.expired': 'expired',
+    };
+    const type = types[String(event.type)];
+    if (!type) return null;
+    const customer = asObject(session.customer_details);
+    return {
+      type,
+      orderId,
+      sessionId: asString(session.id) ?? '',
+      customerEmail: asString(customer.email),
+      customerName: asString(customer.name),
+    };
+  },
+});
+
+export const FAKE_SIGNATURE_HEADER = 'X-Fake-Payment-Signature';
+
+export const signFakePaymentEvent = (rawBody: string, secret: string) => hmacHex(rawBody, secret);
+
+// Prestataire local pour le développement : la « page de paiement » est /api/checkout/fake.
+export const createFakeProvider = (secret: string): PaymentProvider => ({
+  name: 'fake',
+  minHoldMs: 0,
+  createSession: async order => {
+    const sessionId = `fake_${randomUUID()}`;
+    const params = new URLSearchParams({ order: order.id, session: sessionId });
+    return { sessionId, redirectUrl: `/api/checkout/fake?${params}` };
+  },
+  parseCallback: (rawBody, headers) => {
+    const signature = headers.get(FAKE_SIGNATURE_HEADER) ?? '';
+    if (!safeEqual(signature, signFakePaymentEvent(rawBody, secret))) {
+      throw new PaymentSignatureError();
+    }
+    const event = parseJson(rawBody);
+    const type = PAYMENT_EVENT_TYPES.find(candidate => candidate === event.type);
+    const orderId = asString(event.orderId);
+    if (!type || !orderId) return null;
+    return {
+      type,
+      orderId,
+      sessionId: asString(event.sessionId) ?? '',
+      customerEmail: asString(event.customerEmail),
+      customerName: asString(event.customerName),
+    };
+  },
+});
+
+export const getFakeProviderSecret = () =>
+  getEnvValue(['CHECKOUT_FAKE_SECRET'])?.trim() || 'fake-payment-provider';
+
+let paymentProvider: PaymentProvider | null | undefined;
+
+// null : pas de prestataire configuré, le bouton Réserver / Acheter n'est pas affiché.
+export const getPaymentProvider = () => {
+  if (paymentProvider !== undefined) return paymentProvider;
+  const kind = (getEnvValue(['CHECKOUT_PROVIDER']) ?? '').trim().toLowerCase();
+
+  switch (kind) {
+    case '':
+    case 'none':
+      paymentProvider = null;
+      break;
+    case 'stripe': {
+      const secretKey = getEnvValue(['STRIPE_SECRET_KEY']);
+      const webhookSecret = getEnvValue(['STRIPE_WEBHOOK_SECRET']);
+      if (!secretKey || !webhookSecret) {
+        throw new Error('CHECKOUT_PROVIDER=stripe requires STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET');
+      }
+      paymentProvider = createStripeProvider(secretKey, webhookSecret);
+      break;
+    }
+    case 'fake':
+      // Le faux prestataire valide tout paiement : jamais en production par accident.
+      if (import.meta.env.PROD && getEnvValue(['CHECKOUT_ALLOW_FAKE']) !== 'true') {
+        throw new Error('CHECKOUT_PROVIDER=fake is disabled in production builds');
+      }
+      paymentProvider = createFakeProvider(getFakeProviderSecret());
+      break;
+    default:
+      throw new Error(`Unknown CHECKOUT_PROVIDER "${kind}"`);
+  }
+  return paymentProvider;
+};
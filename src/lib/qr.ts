@@ -0,0 +1,9 @@
+import QRCode from 'qrcode';
+
+export const renderQrSvg = (text: string) =>
+  QRCode.toString(text, {
+    type: 'svg',
+    errorCorrectionLevel: 'M',
+    margin: 0,
+    color: { dark: '#1d1a16', light: '#ffffff00' },
+  });
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { ArtworkDimensions } from './dimensions';
+import {
+  buildQuote,
+  parseQuoteDestination,
+  presentQuote,
+  QuoteError,
+  type QuoteDestination,
+} from './quote';
+
+const size = (width: number, height: number, unit: 'in' | 'cm' = 'in'): ArtworkDimensions => ({
+  width,
+  height,
+  depth: null,
+  unit,
+  orientation: width === height ? 'square' : width > height ? 'landscape' : 'portrait',
+});
+
+const texas: QuoteDestination = { country: 'US', state: 'TX', zip: '75201' };
+const texasByState: QuoteDestination = { country: 'US', state: 'TX', zip: null };
+const california: QuoteDestination = { country: 'US', state: 'CA', zip: '90210' };
+const mexico: QuoteDestination = { country: 'MX', state: null, zip: null };
+
+describe('buildQuote', () => {
+  // Montants en cents ; la taxe texane porte sur l'œuvre, l'emballage et la livraison.
+  it.each([
+    [
+      'small, Dallas ZIP', 1200, size(20, 16), texas,
+      { band: 'small', crating: 7500, shipping: 4500, taxable: 132000, tax: 10890, total: 142890 },
+    ],
+    [
+      'large, Texas by state, tax rounded', 950.5, size(36, 48), texasByState,
+      { band: 'large', crating: 25000, shipping: 16000, taxable: 136050, tax: 11224, total: 147274 },
+    ],
+    [
+      'medium, out of state', 1999.99, size(30, 30), california,
+      { band: 'medium', crating: 15000, shipping: 18000, taxable: 0, tax: 0, total: 232999 },
+    ],
+    [
+      'centimetres, international', 500, size(100, 80, 'cm'), mexico,
+      { band: 'medium', crating: 15000, shipping: 42000, taxable: 0, tax: 0, total: 107000 },
+    ],
+    [
+      'band boundary', 800, size(24, 18), california,
+      { band: 'small', crating: 7500, shipping: 9500, taxable: 0, tax: 0, total: 97000 },
+    ],
+    [
+      'just over the boundary', 800, size(61, 45, 'cm'), california,
+      { band: 'medium', crating: 15000, shipping: 18000, taxable: 0, tax: 0, total: 113000 },
+    ],
+  ] as const)('%s', (_label, price, artworkSize, destination, expected) => {
+    const quote = buildQuote({ price, size: artworkSize, destination });
+    expect({
+      band: quote.band,
+      crating: quote.crating,
+      shipping: quote.shipping,
+      taxable: quote.tax.taxable,
+      tax: quote.tax.amount,
+      total: quote.total,
+    }).toEqual(expected);
+  });
+
+  it.each([
+    [texas, null, 0.0825],
+    [california, 'out-of-state', 0],
+    [mexico, 'international', 0],
+  ] as const)('applies the flat Texas rate or an exemption for %j', (destination, exemption, rate) => {
+    const { tax } = buildQuote({ price: 1000, size: size(20, 20), destination });
+    expect(tax.exemption).toBe(exemption);
+    expect(tax.rate).toBeCloseTo(rate, 10);
+  });
+
+  it('leaves the total on request without a size or for oversize international shipping', () => {
+    const unsized = buildQuote({ price: 1000, size: null, destination: texas });
+    expect(unsized).toMatchObject({ band: null, crating: null, shipping: null, total: null });
+    expect(unsized.tax).toMatchObject({ taxable: 100000, amount: 8250 });
+
+    const oversize = buildQuote({ price: 5000, size: size(70, 50), destination: mexico });
+    expect(oversize).toMatchObject({ band: 'oversize', crating: 40000, shipping: null, total: null });
+  });
+});
+
+describe('parseQuoteDestination', () => {
+  it.each([
+    [{ zip: '75201-1234' }, { country: 'US', state: 'TX', zip: '75201' }],
+    [{ zip: '73301' }, { country: 'US', state: 'TX', zip: '73301' }],
+    [{ country: 'us', state: 'ca' }, { country: 'US', state: 'CA', zip: null }],
+    [{ country: 'mx', state: 'JAL', zip: '44100' }, { country: 'MX', state: null, zip: null }],
+  ])('%j → %j', (input, expected) => {
+    expect(parseQuoteDestination(input)).toEqual(expected);
+  });
+
+  it.each([
+    [{ country: 'Mexico' }, 'Invalid country'],
+    [{ zip: '7520' }, 'Invalid ZIP code'],
+    [{ state: 'Texas' }, 'Invalid state'],
+    [{}, 'A ZIP code or state is required'],
+    [{ state: 'CA', zip: '75201' }, 'ZIP code does not match state'],
+    [{ state: 'TX', zip: '90210' }, 'ZIP code does not match state'],
+  ])('rejects %j', (input, message) => {
+    expect(() => parseQuoteDestination(input)).toThrow(new QuoteError(message));
+  });
+});
+
+describe('presentQuote', () => {
+  it('says the Texas rate is flat and explains exemptions', () => {
+    const inTexas = presentQuote(buildQuote({ price: 1200, size: size(20, 16), destination: texas }), 'en');
+    expect(inTexas.rows.find(row => row.label.startsWith('Texas sales tax'))).toEqual({
+      label: 'Texas sales tax 8.25%',
+      value: '$108.90 USD',
+    });
+    expect(inTexas.notes[0]).toMatch(/maximum combined Texas rate/);
+
+    const outOfState = presentQuote(
+      buildQuote({ price: 1200, size: size(20, 16), destination: california }),
+      'es'
+    );
+    expect(outOfState.rows.find(row => row.label === 'Impuesto sobre ventas de Texas')?.value).toBe('Exento');
+    expect(outOfState.notes[0]).toMatch(/fuera del estado/);
+  });
+});
@@ -0,0 +1,291 @@
+import { formatMoney } from './currency';
+import { getLongestSide, type ArtworkDimensions } from './dimensions';
+import type { ProductCard } from './wp';
+
+export type QuoteDestination = {
+  // Code pays ISO 3166-1 alpha-2.
+  country: string;
+  state: string | null;
+  zip: string | null;
+};
+
+export type SizeBand = 'small' | 'medium' | 'large' | 'oversize';
+
+export type ShippingZone = 'texas' | 'domestic' | 'international';
+
+export type TaxExemption = 'out-of-state' | 'international';
+
+// Tous les montants sont en cents USD, comme les commandes.
+export type SalesTaxQuote = {
+  stateRate: number;
+  localRate: number;
+  rate: number;
+  taxable: number;
+  amount: number;
+  exemption: TaxExemption | null;
+};
+
+export type ArtworkQuote = {
+  currency: 'usd';
+  destination: QuoteDestination;
+  band: SizeBand | null;
+  zone: ShippingZone;
+  price: number;
+  crating: number | null;
+  shipping: number | null;
+  tax: SalesTaxQuote;
+  // null : emballage ou transport sur devis (format inconnu ou hors barème).
+  total: number | null;
+  ratesAsOf: string;
+};
+
+export class QuoteError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = 'QuoteError';
+  }
+}
+
+export const TEXAS_RATES_AS_OF = '2026-01-01';
+export const TEXAS_STATE_RATE = 0.0625;
+// Taux local forfaitaire, sans table par code postal : le plafond légal (ville, comté, transports,
+// district spécial), celui de Dallas, Houston, Austin et San Antonio, appliqué à toute adresse texane.
+export const TEXAS_LOCAL_RATE = 0.02;
+
+const isTexasZip = (zip: string) => {
+  const prefix = Number(zip.slice(0, 3));
+  return prefix === 733 || prefix === 885 || (prefix >= 750 && prefix <= 799);
+};
+
+// Bandes selon le plus grand côté, en pouces.
+const SIZE_BANDS: Array<[SizeBand, number]> = [
+  ['small', 24],
+  ['medium', 40],
+  ['large', 60],
+  ['oversize', Infinity],
+];
+
+const CRATING: Record<SizeBand, number> = {
+  small: 7500,
+  medium: 15000,
+  large: 25000,
+  oversize: 40000,
+};
+
+// Transport assuré depuis l'atelier de Dallas ; null : sur devis.
+const SHIPPING: Record<SizeBand, Record<ShippingZone, number | null>> = {
+  small: { texas: 4500, domestic: 9500, international: 22000 },
+  medium: { texas: 9000, domestic: 18000, international: 42000 },
+  large: { texas: 16000, domestic: 32000, international: 78000 },
+  oversize: { texas: 28000, domestic: 55000, international: null },
+};
+
+export const getSizeBand = (size: ArtworkDimensions | null | undefined): SizeBand | null => {
+  if (!size) return null;
+  const longest = getLongestSide(size, 'in');
+  return SIZE_BANDS.find(([, limit]) => longest <= limit)?.[0] ?? null;
+};
+
+const clean = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export const parseQuoteDestination = (input: {
+  country?: unknown;
+  state?: unknown;
+  zip?: unknown;
+}): QuoteDestination => {
+  const country = clean(input.country).toUpperCase() || 'US';
+  if (!/^[A-Z]{2}$/.test(country)) throw new QuoteError('Invalid country');
+  if (country !== 'US') return { country, state: null, zip: null };
+
+  const zip = clean(input.zip).match(/^(\d{5})(?:-\d{4})?$/)?.[1] ?? null;
+  if (clean(input.zip) && !zip) throw new QuoteError('Invalid ZIP code');
+  const state = clean(input.state).toUpperCase() || null;
+  if (state && !/^[A-Z]{2}$/.test(state)) throw new QuoteError('Invalid state');
+  if (!zip && !state) throw new QuoteError('A ZIP code or state is required');
+  if (zip && state && (state === 'TX') !== isTexasZip(zip)) {
+    throw new QuoteError('ZIP code does not match state');
+  }
+  return { country, state: state ?? (zip && isTexasZip(zip) ? 'TX' : null), zip };
+};
+
+const getShippingZone = (destination: QuoteDestination): ShippingZone => {
+  if (destination.country !== 'US') return 'international';
+  const inTexas = destination.zip ? isTexasZip(destination.zip) : destination.state === 'TX';
+  return inTexas ? 'texas' : 'domestic';
+};
+
+// Au Texas, emballage et livraison font partie du prix de vente taxable.
+const quoteSalesTax = (zone: ShippingZone, taxable: number): SalesTaxQuote => {
+  if (zone !== 'texas') {
+    return {
+      stateRate: 0,
+      localRate: 0,
+      rate: 0,
+      taxable: 0,
+      amount: 0,
+      exemption: zone === 'international' ? 'international' : 'out-of-state',
+    };
+  }
+  const rate = TEXAS_STATE_RATE + TEXAS_LOCAL_RATE;
+  return {
+    stateRate: TEXAS_STATE_RATE,
+    localRate: TEXAS_LOCAL_RATE,
+    rate,
+    taxable,
+    amount: Math.round(taxable * rate),
+    exemption: null,
+  };
+};
+
+export const buildQuote = (input: {
+  price: number;
+  size: ArtworkDimensions | null | undefined;
+  destination: QuoteDestination;
+}): ArtworkQuote => {
+  const price = Math.round(input.price * 100);
+  const band = getSizeBand(input.size);
+  const zone = getShippingZone(input.destination);
+  const crating = band ? CRATING[band] : null;
+  const shipping = band ? SHIPPING[band][zone] : null;
+  const tax = quoteSalesTax(zone, price + (crating ?? 0) + (shipping ?? 0));
+  return {
+    currency: 'usd',
+    destination: input.destination,
+    band,
+    zone,
+    price,
+    crating,
+    shipping,
+    tax,
+    total: crating !== null && shipping !== null ? price + crating + shipping + tax.amount : null,
+    ratesAsOf: TEXAS_RATES_AS_OF,
+  };
+};
+
+export const quoteProduct = (
+  product: Pick<ProductCard, 'price' | 'size' | 'availability'>,
+  destination: QuoteDestination
+) => {
+  if (!product.price || product.price <= 0) throw new QuoteError('Artwork has no public price', 404);
+  if (product.availability === 'sold') throw new QuoteError('Artwork is no longer available', 409);
+  return buildQuote({ price: product.price, size: product.size, destination });
+};
+
+// Même présentation que les prix du catalogue : « $1,250 USD ».
+export const formatUsdCents = (cents: number) => formatMoney(cents / 100, 'USD');
+
+const formatRate = (rate: number) => `${Number((rate * 100).toFixed(3))}%`;
+
+const quoteLabels = {
+  es: {
+    price: 'Obra',
+    crating: 'Embalaje',
+    shipping: 'Envío asegurado',
+    tax: 'Impuesto sobre ventas de Texas',
+    exempt: 'Exento',
+    total: 'Total',
+    onRequest: 'Sobre pedido',
+    bands: { small: 'pequeño', medium: 'mediano', large: 'grande', oversize: 'gran formato' },
+    zones: { texas: 'Texas', domestic: 'Estados Unidos', international: 'internacional' },
+    outOfState: 'Sin impuesto de Texas: entrega fuera del estado.',
+    international: 'Sin impuesto de Texas. Los aranceles de importación corren por cuenta del comprador.',
+    flatRate: 'Impuesto estimado con la tasa combinada máxima de Texas: 6.25 % estatal y 2 % local.',
+    onRequestNote: 'Embalaje o envío sobre pedido: le confirmaremos el total por correo.',
+    asOf: (date: string) => `Tarifas vigentes al ${date}.`,
+  },
+  en: {
+    price: 'Artwork',
+    crating: 'Crating',
+    shipping: 'Insured shipping',
+    tax: 'Texas sales tax',
+    exempt: 'Exempt',
+    total: 'Total',
+    onRequest: 'On request',
+    bands: { small: 'small', medium: 'medium', large: 'large', oversize: 'oversize' },
+    zones: { texas: 'Texas', domestic: 'United States', international: 'international' },
+    outOfState: 'No Texas sales tax: delivery outside the state.',
+    international: 'No Texas sales tax. Import duties are the responsibility of the buyer.',
+    flatRate: 'Tax estimated at the maximum combined Texas rate: 6.25% state and 2% local.',
+    onRequestNote: 'Crating or shipping on request: we will confirm the total by email.',
+    asOf: (date: string) => `Rates as of ${date}.`,
+  },
+};
+
+export type QuoteRow = { label: string; value: string; total?: boolean };
+
+// Lignes du devis prêtes à afficher ; la même présentation sert à la page, à l'API et aux e-mails.
+export const presentQuote = (quote: ArtworkQuote, lang: 'es' | 'en') => {
+  const ui = quoteLabels[lang];
+  const money = (value: number | null) => (value === null ? ui.onRequest : formatUsdCents(value));
+  const { tax } = quote;
+  const rows: QuoteRow[] = [
+    { label: ui.price, value: money(quote.price) },
+    {
+      label: quote.band ? `${ui.crating} (${ui.bands[quote.band]})` : ui.crating,
+      value: money(quote.crating),
+    },
+    { label: `${ui.shipping} (${ui.zones[quote.zone]})`, value: money(quote.shipping) },
+    {
+      label: tax.exemption ? ui.tax : `${ui.tax} ${formatRate(tax.rate)}`,
+      value: tax.exemption ? ui.exempt : money(tax.amount),
+    },
+    { label: ui.total, value: money(quote.total), total: true },
+  ];
+  const notes = [
+    ...(tax.exemption === 'out-of-state' ? [ui.outOfState] : []),
+    ...(tax.exemption === 'international' ? [ui.international] : []),
+    ...(tax.exemption ? [] : [ui.flatRate]),
+    ...(quote.total === null ? [ui.onRequestNote] : []),
+    ui.asOf(quote.ratesAsOf),
+  ];
+  return { rows, notes };
+};
+
+// Lignes lisibles pour les notifications à l'équipe.
+export const describeQuote = (quote: ArtworkQuote) => {
+  const { destination } = quote;
+  return [
+    `Destination: ${[destination.zip, destination.state, destination.country].filter(Boolean).join(' ')}`,
+    ...presentQuote(quote, 'en').rows.map(row => `${row.label}: ${row.value}`),
+  ];
+};
+
+// Destination saisie dans le calculateur, reprise par les formulaires sans JavaScript.
+export const readQuoteParams = (url: URL) => {
+  const country = url.searchParams.get('country')?.trim();
+  if (!country) return null;
+  return {
+    country,
+    state: url.searchParams.get('state')?.trim() ?? '',
+    zip: url.searchParams.get('zip')?.trim() ?? '',
+  };
+};
+
+const messages = {
+  es: {
+    invalidRequest: 'Solicitud no válida',
+    'Invalid country': 'Seleccione un país válido.',
+    'Invalid ZIP code': 'Introduzca un código postal de 5 dígitos.',
+    'Invalid state': 'Introduzca el estado con dos letras (por ejemplo, TX).',
+    'A ZIP code or state is required': 'Introduzca un código postal o un estado.',
+    'ZIP code does not match state': 'El código postal no corresponde al estado.',
+    'Artwork has no public price': 'Esta obra no tiene precio publicado.',
+    'Artwork is no longer available': 'Esta obra ya no está disponible.',
+  },
+  en: {
+    invalidRequest: 'Invalid request',
+    'Invalid country': 'Please select a valid country.',
+    'Invalid ZIP code': 'Please enter a 5-digit ZIP code.',
+    'Invalid state': 'Please enter a two-letter state code (e.g. TX).',
+    'A ZIP code or state is required': 'Please enter a ZIP code or state.',
+    'ZIP code does not match state': 'The ZIP code does not match the state.',
+    'Artwork has no public price': 'This artwork has no published price.',
+    'Artwork is no longer available': 'This artwork is no longer available.',
+  },
+} satisfies Record<'es' | 'en', Record<string, string>>;
+
+export const translateQuoteError = (lang: 'es' | 'en', message: string) =>
+  (messages[lang] as Record<string, string>)[message] ?? messages[lang].invalidRequest;
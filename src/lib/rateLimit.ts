@@ -0,0 +1,125 @@
+import { getEnvValue } from './env';
+
+export type AttemptState = { failures: number; windowStart: number; lockedUntil: number };
+
+// Un backend persistant (KV, Redis, base SQL) n'a qu'à implémenter ces trois méthodes.
+export interface AttemptStore {
+  get(key: string): Promise<AttemptState | null>;
+  set(key: string, state: AttemptState, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export const createMemoryAttemptStore = (): AttemptStore => {
+  const entries = new Map<string, { state: AttemptState; expiresAt: number }>();
+  return {
+    get: async key => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.state;
+    },
+    set: async (key, state, ttlMs) => {
+      entries.set(key, { state, expiresAt: Date.now() + ttlMs });
+    },
+    delete: async key => {
+      entries.delete(key);
+    },
+  };
+};
+
+export type LimitRule = { prefix: string; maxFailures: number; windowMs: number; lockoutMs: number };
+
+export type LimitCheck = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+export const createAttemptLimiter = (rules: LimitRule[], store: AttemptStore) => {
+  const keyFor = (rule: LimitRule, id: string) => `${rule.prefix}:${id}`;
+  const ttlFor = (rule: LimitRule) => Math.max(rule.windowMs, rule.lockoutMs);
+
+  const check = async (ids: Record<string, string | null | undefined>): Promise<LimitCheck> => {
+    const now = Date.now();
+    let retryAfterMs = 0;
+    for (const rule of rules) {
+      const id = ids[rule.prefix];
+      if (!id) continue;
+      const state = await store.get(keyFor(rule, id));
+      if (state && state.lockedUntil > now) {
+        retryAfterMs = Math.max(retryAfterMs, state.lockedUntil - now);
+      }
+    }
+    return retryAfterMs > 0 ? { allowed: false, retryAfterMs } : { allowed: true };
+  };
+
+  const recordFailure = async (ids: Record<string, string | null | undefined>) => {
+    const now = Date.now();
+    for (const rule of rules) {
+      const id = ids[rule.prefix];
+      if (!id) continue;
+      const key = keyFor(rule, id);
+      const previous = await store.get(key);
+      const inWindow = previous && now - previous.windowStart < rule.windowMs;
+      const failures = inWindow ? previous.failures + 1 : 1;
+      await store.set(
+        key,
+        {
+          failures,
+          windowStart: inWindow ? previous.windowStart : now,
+          lockedUntil: failures >= rule.maxFailures ? now + rule.lockoutMs : 0,
+        },
+        ttlFor(rule)
+      );
+    }
+  };
+
+  // Une connexion réussie remet à zéro le compteur du compte, pas celui de l'adresse IP.
+  const recordSuccess = async (ids: Record<string, string | null | undefined>, prefixes: string[]) => {
+    for (const rule of rules) {
+      const id = ids[rule.prefix];
+      if (id && prefixes.includes(rule.prefix)) await store.delete(keyFor(rule, id));
+    }
+  };
+
+  return { check, recordFailure, recordSuccess };
+};
+
+const numberEnv = (key: string, fallback: number) => {
+  const parsed = Number(getEnvValue([key]));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const MINUTE = 60 * 1000;
+
+let loginLimiter: ReturnType<typeof createAttemptLimiter> | null = null;
+
+export const getLoginLimiter = () => {
+  loginLimiter ??= createAttemptLimiter(
+    [
+      {
+        prefix: 'user',
+        maxFailures: numberEnv('COA_LOGIN_MAX_FAILURES', 5),
+        windowMs: 15 * MINUTE,
+        lockoutMs: numberEnv('COA_LOGIN_LOCKOUT_MS', 15 * MINUTE),
+      },
+      {
+        prefix: 'ip',
+        maxFailures: numberEnv('COA_LOGIN_MAX_FAILURES_PER_IP', 20),
+        windowMs: 15 * MINUTE,
+        lockoutMs: numberEnv('COA_LOGIN_LOCKOUT_MS', 15 * MINUTE),
+      },
+    ],
+    createMemoryAttemptStore()
+  );
+  return loginLimiter;
+};
+
+export const getClientIp = (request: Request, clientAddress?: () => string) => {
+  try {
+    const address = clientAddress?.();
+    if (address) return address;
+  } catch {
+    // Adaptateur sans adresse client : on se rabat sur l'en-tête du proxy.
+  }
+  return request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null;
+};
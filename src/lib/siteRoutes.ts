@@ -0,0 +1,63 @@
+export type ChangeFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type LocalizedRoute = {
+  es: string;
+  en: string;
+  changefreq: ChangeFrequency;
+  priority: number;
+  // Pages qui listent le catalogue : leur date de modification suit celle des œuvres.
+  listsCatalog?: boolean;
+};
+
+// Une ligne par paire de pages es/en ; le sitemap et les hreflang en dépendent.
+export const staticRoutes: LocalizedRoute[] = [
+  { es: '/', en: '/en/', changefreq: 'weekly', priority: 1, listsCatalog: true },
+  { es: '/exhibitions', en: '/en/exhibitions', changefreq: 'weekly', priority: 0.9, listsCatalog: true },
+  { es: '/colecciones', en: '/en/collections', changefreq: 'weekly', priority: 0.8, listsCatalog: true },
+  { es: '/contacto', en: '/en/contact', changefreq: 'monthly', priority: 0.7 },
+  { es: '/newsletter', en: '/en/newsletter', changefreq: 'monthly', priority: 0.5 },
+  { es: '/aviso-privacidad', en: '/en/privacy', changefreq: 'yearly', priority: 0.3 },
+  {
+    es: '/es/garantias-y-autenticidad',
+    en: '/en/warranties-and-authenticity',
+    changefreq: 'yearly',
+    priority: 0.3,
+  },
+  { es: '/es/politica-de-devoluciones', en: '/en/return-policy', changefreq: 'yearly', priority: 0.3 },
+  {
+    es: '/es/condiciones-generales-de-uso',
+    en: '/en/terms-and-conditions',
+    changefreq: 'yearly',
+    priority: 0.2,
+  },
+  { es: '/es/impuestos-texas', en: '/en/texas-taxes', changefreq: 'yearly', priority: 0.2 },
+];
+
+export const getArtworkRoute = (slug: string): LocalizedRoute => ({
+  es: `/obras/${slug}`,
+  en: `/en/works/${slug}`,
+  changefreq: 'monthly',
+  priority: 0.8,
+});
+
+export const getCollectionRoute = (slug: string): LocalizedRoute => ({
+  es: `/colecciones/${slug}`,
+  en: `/en/collections/${slug}`,
+  changefreq: 'weekly',
+  priority: 0.7,
+});
+
+// Agenda des événements : hors de staticRoutes, elle n'existe que si SHOW_EVENTS_NEWS est actif.
+export const eventsRoute: LocalizedRoute = {
+  es: '/eventos',
+  en: '/en/events',
+  changefreq: 'weekly',
+  priority: 0.7,
+};
+
+export const getEventRoute = (slug: string): LocalizedRoute => ({
+  es: `/eventos/${slug}`,
+  en: `/en/events/${slug}`,
+  changefreq: 'monthly',
+  priority: 0.6,
+});
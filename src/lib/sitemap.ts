@@ -0,0 +1,64 @@
+import type { LocalizedRoute } from './siteRoutes';
+
+export type SitemapImage = { loc: string; title?: string | null };
+
+export type SitemapRoute = LocalizedRoute & {
+  lastmod?: string | null;
+  images?: SitemapImage[];
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Chaque langue a sa propre entrée, avec les mêmes alternates que BaseLayout (x-default = espagnol).
+const renderRoute = (route: SitemapRoute, site: URL) => {
+  const esUrl = new URL(route.es, site).href;
+  const enUrl = new URL(route.en, site).href;
+  const alternates = [
+    `    <xhtml:link rel="alternate" hreflang="es" href="${escapeXml(esUrl)}"/>`,
+    `    <xhtml:link rel="alternate" hreflang="en" href="${escapeXml(enUrl)}"/>`,
+    `    <xhtml:link rel="alternate" hreflang="x-default" href="${escapeXml(esUrl)}"/>`,
+  ];
+  const images = (route.images ?? []).map(image =>
+    [
+      '    <image:image>',
+      `      <image:loc>${escapeXml(new URL(image.loc, site).href)}</image:loc>`,
+      ...(image.title ? [`      <image:title>${escapeXml(image.title)}</image:title>`] : []),
+      '    </image:image>',
+    ].join('\n')
+  );
+
+  return [esUrl, enUrl].map(loc =>
+    [
+      '  <url>',
+      `    <loc>${escapeXml(loc)}</loc>`,
+      ...(route.lastmod ? [`    <lastmod>${route.lastmod}</lastmod>`] : []),
+      `    <changefreq>${route.changefreq}</changefreq>`,
+      `    <priority>${route.priority.toFixed(1)}</priority>`,
+      ...alternates,
+      ...images,
+      '  </url>',
+    ].join('\n')
+  );
+};
+
+export const renderSitemap = (routes: SitemapRoute[], site: URL) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"',
+    '        xmlns:xhtml="http://www.w3.org/1999/xhtml"',
+    '        xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...routes.flatMap(route => renderRoute(route, site)),
+    '</urlset>',
+    '',
+  ].join('\n');
+
+export const latestDate = (dates: Array<string | null | undefined>) =>
+  dates
+    .filter((date): date is string => Boolean(date))
+    .reduce<string | null>((latest, date) => (!latest || date > latest ? date : latest), null);
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getCanonicalArtworkPath,
+  getSeriesKey,
+  normalizeSlug,
+  resolveArtworkSlug,
+  slugMatchTable,
+  stripDimensionSuffix,
+  suggestArtworks,
+} from './slugResolver';
+
+const catalog = [
+  { id: 11, title: 'Mujer con luna', slug: 'mujer-con-luna' },
+  { id: 12, title: 'Mujer pensante', slug: 'mujer-pensante-36x48-oleo' },
+  { id: 13, title: 'Mujer 2', slug: 'mujer-2-oleo' },
+  { id: 14, title: 'Mujer 3', slug: 'mujer-3-oleo' },
+  {
+    id: 15,
+    title: 'Tormenta',
+    slug: 'tormenta',
+    translations: { en: { title: 'Storm' } },
+  },
+  { id: 16, title: 'Atardecer', slug: 'atardecer-acrilico' },
+  { id: 17, title: 'Noche 1', slug: 'noche-1-oleo' },
+  // Instantané du catalogue sans identifiant WooCommerce.
+  { id: 0, title: 'Danza', slug: 'danza' },
+];
+
+const resolve = (slug: string) => resolveArtworkSlug(catalog, slug);
+
+describe('slugMatchTable', () => {
+  it('tries the rules in priority order', () => {
+    expect(slugMatchTable.map(rule => rule.name)).toEqual([
+      'normalized',
+      'product-id',
+      'without-dimensions',
+      'without-medium',
+      'without-series-index',
+      'translated-title',
+    ]);
+  });
+});
+
+describe('resolveArtworkSlug', () => {
+  it.each([
+    // [requested slug, expected result, canonical slug, rule]
+    ['mujer-con-luna', 'exact', 'mujer-con-luna', undefined],
+    ['Mujer-Con-Luna', 'redirect', 'mujer-con-luna', 'normalized'],
+    ['mujer%20con%20luna', 'redirect', 'mujer-con-luna', 'normalized'],
+    ['mujer-con-luna/', 'redirect', 'mujer-con-luna', 'normalized'],
+    ['ATARDÉCER-ACRÍLICO', 'redirect', 'atardecer-acrilico', 'normalized'],
+    ['12', 'redirect', 'mujer-pensante-36x48-oleo', 'product-id'],
+    ['0015', 'redirect', 'tormenta', 'product-id'],
+    ['mujer-pensante-36x48', 'redirect', 'mujer-pensante-36x48-oleo', 'without-dimensions'],
+    ['mujer-pensante-36x48-acrilico-2019', 'redirect', 'mujer-pensante-36x48-oleo', 'without-dimensions'],
+    ['mujer-pensante', 'redirect', 'mujer-pensante-36x48-oleo', 'without-dimensions'],
+    ['atardecer-oil', 'redirect', 'atardecer-acrilico', 'without-medium'],
+    ['tormenta-36x48-oleo', 'redirect', 'tormenta', 'without-dimensions'],
+    ['noche', 'redirect', 'noche-1-oleo', 'without-series-index'],
+    ['noche-oleo-36x48', 'redirect', 'noche-1-oleo', 'without-series-index'],
+    ['storm', 'redirect', 'tormenta', 'translated-title'],
+    ['storm-oil', 'redirect', 'tormenta', 'translated-title'],
+  ] as const)('%s → %s %s', (slug, kind, canonical, rule) => {
+    const resolution = resolve(slug);
+    expect(resolution.kind).toBe(kind);
+    if (resolution.kind === 'not-found') return;
+    expect(resolution.item.slug).toBe(canonical);
+    if (resolution.kind === 'redirect') expect(resolution.rule).toBe(rule);
+  });
+
+  it('ignores the id rule for items without a WooCommerce id', () => {
+    expect(resolve('0').kind).toBe('not-found');
+  });
+
+  it('never guesses which numbered work of a series was meant', () => {
+    expect(resolve('mujer-4-oleo').kind).toBe('not-found');
+    // Le numéro est gardé : seule la technique erronée est corrigée.
+    expect(resolve('mujer-2-acrilico')).toMatchObject({
+      kind: 'redirect',
+      item: { slug: 'mujer-2-oleo' },
+      rule: 'without-medium',
+    });
+    expect(resolve('mujer-2-oleo-36x48')).toMatchObject({
+      kind: 'redirect',
+      item: { slug: 'mujer-2-oleo' },
+      rule: 'without-dimensions',
+    });
+  });
+
+  it('does not redirect when a rule matches several works', () => {
+    expect(resolve('mujer').kind).toBe('not-found');
+  });
+
+  it('returns a 404 with the closest works as suggestions', () => {
+    const resolution = resolve('mujer-con-sol');
+    expect(resolution.kind).toBe('not-found');
+    if (resolution.kind !== 'not-found') return;
+    expect(resolution.suggestions[0].slug).toBe('mujer-con-luna');
+    expect(resolution.suggestions).toHaveLength(3);
+  });
+
+  it('returns a 404 without suggestions when nothing is close', () => {
+    expect(resolve('paisaje-marino')).toEqual({ kind: 'not-found', suggestions: [] });
+  });
+});
+
+describe('suggestArtworks', () => {
+  it('ranks by shared words and honours the limit', () => {
+    const suggestions = suggestArtworks(catalog, 'mujer-pensante-azul', 2);
+    expect(suggestions).toHaveLength(2);
+    expect(suggestions[0].slug).toBe('mujer-pensante-36x48-oleo');
+    expect(suggestArtworks(catalog, 'mujer-pensante-azul', 10)).toHaveLength(4);
+  });
+});
+
+describe('slug helpers', () => {
+  it.each([
+    ['Mujer Con Luna', 'mujer-con-luna'],
+    ['Pequeña%20Niña/', 'pequena-nina'],
+    ['%E0%A4%A', 'e0a4a'],
+  ])('normalizeSlug(%s) = %s', (input, expected) => {
+    expect(normalizeSlug(input)).toBe(expected);
+  });
+
+  it.each([
+    ['mujer-pensante-36x48-oleo', 'mujer-pensante'],
+    ['tormenta-100x80', 'tormenta'],
+    ['tormenta', 'tormenta'],
+  ])('stripDimensionSuffix(%s) = %s', (input, expected) => {
+    expect(stripDimensionSuffix(input)).toBe(expected);
+  });
+
+  it.each([
+    ['mujer-2-oleo-36x36', 'mujer'],
+    ['mujer-3', 'mujer'],
+    ['mujer', 'mujer'],
+    ['mujer-pensante-36x48-oleo', 'mujer-pensante'],
+    ['atardecer-acrilico', 'atardecer'],
+  ])('getSeriesKey(%s) = %s', (input, expected) => {
+    expect(getSeriesKey(input)).toBe(expected);
+  });
+
+  it('builds canonical paths in both languages', () => {
+    expect(getCanonicalArtworkPath({ title: 'Danza', slug: 'danza' }, 'es')).toBe('/obras/danza');
+    expect(getCanonicalArtworkPath({ title: 'Pequeña Niña' }, 'en')).toBe('/en/works/pequena-nina');
+  });
+});
@@ -0,0 +1,127 @@
+import type { ArtworkTranslations } from './artworkTranslations';
+import { getArtworkRoute } from './siteRoutes';
+import { slugify } from './slugify';
+
+type ResolvableArtwork = {
+  id?: number;
+  title: string;
+  slug?: string | null;
+  translations?: ArtworkTranslations;
+};
+
+export type SlugMatchRule = {
+  name: string;
+  // Clé comparée des deux côtés ; null quand la règle ne s'applique pas à ce slug.
+  key: (slug: string) => string | null;
+  // Clés supplémentaires d'une œuvre (ex. titre traduit) ; par défaut, son slug seul.
+  itemKeys?: (item: ResolvableArtwork) => string[];
+};
+
+export type SlugResolution<T> =
+  | { kind: 'exact'; item: T }
+  | { kind: 'redirect'; item: T; rule: string }
+  | { kind: 'not-found'; suggestions: T[] };
+
+const MEDIUM_SUFFIX = /-(?:acrilic[oa]?|acrylic|oleo|oil|mixta|mixed-media)$/;
+const SERIES_INDEX = /-\d+(?=-(?:acrilic[oa]?|acrylic|oleo|oil)\b)/;
+
+const decodeSlug = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// « Mujer-Con-Luna », « mujer%20con%20luna » ou « mujer-con-luna/ » désignent le même slug.
+export const normalizeSlug = (value: string) => slugify(decodeSlug(value).replace(/\/+$/g, ''));
+
+// Retire le format (« -36x48… ») que WooCommerce ajoutait aux anciens slugs.
+export const stripDimensionSuffix = (value: string) =>
+  normalizeSlug(value).replace(/-\d{2,3}x\d{2,3}.*$/, '').replace(/-+$/g, '');
+
+const stripMediumSuffix = (value: string) => stripDimensionSuffix(value).replace(MEDIUM_SUFFIX, '');
+
+const hasSeriesIndex = (value: string) => SERIES_INDEX.test(normalizeSlug(value));
+
+// Racine d'une série : « mujer-2-oleo-36x36 », « mujer-3 » et « mujer » donnent « mujer ».
+export const getSeriesKey = (value: string) =>
+  stripMediumSuffix(normalizeSlug(value).replace(SERIES_INDEX, '')).replace(/-\d+$/, '');
+
+// Ordre = priorité. Une règle ne s'applique que si elle désigne une seule œuvre.
+export const slugMatchTable: SlugMatchRule[] = [
+  { name: 'normalized', key: normalizeSlug },
+  {
+    // Anciens liens WordPress par identifiant (« ?p=123 » réécrit en /obras/123).
+    name: 'product-id',
+    key: slug => (/^\d+$/.test(normalizeSlug(slug)) ? String(Number(normalizeSlug(slug))) : null),
+    itemKeys: item => (item.id ? [String(item.id)] : []),
+  },
+  { name: 'without-dimensions', key: slug => stripDimensionSuffix(slug) || null },
+  { name: 'without-medium', key: slug => stripMediumSuffix(slug) || null },
+  {
+    // « mujer-2-oleo » désigne une œuvre précise d'une série : jamais de correspondance approximative.
+    name: 'without-series-index',
+    key: slug =>
+      hasSeriesIndex(slug)
+        ? null
+        : stripMediumSuffix(normalizeSlug(slug).replace(SERIES_INDEX, '')) || null,
+    itemKeys: item => [stripMediumSuffix(itemSlug(item).replace(SERIES_INDEX, ''))],
+  },
+  {
+    name: 'translated-title',
+    key: slug => stripMediumSuffix(slug) || null,
+    itemKeys: item =>
+      Object.values(item.translations ?? {})
+        .map(copy => (copy?.title ? slugify(copy.title) : ''))
+        .concat(slugify(item.title))
+        .filter(Boolean),
+  },
+];
+
+const itemSlug = (item: ResolvableArtwork) => item.slug || slugify(item.title);
+
+const defaultItemKeys = (rule: SlugMatchRule) => (item: ResolvableArtwork) => {
+  const key = rule.key(itemSlug(item));
+  return key ? [key] : [];
+};
+
+const tokens = (value: string) => new Set(stripMediumSuffix(value).split('-').filter(Boolean));
+
+// Mots communs entre deux slugs (coefficient de Dice), pour classer les suggestions.
+const similarity = (a: string, b: string) => {
+  const left = tokens(a);
+  const right = tokens(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter(token => right.has(token)).length;
+  return (2 * shared) / (left.size + right.size);
+};
+
+export const suggestArtworks = <T extends ResolvableArtwork>(items: T[], slug: string, limit = 3) =>
+  items
+    .map(item => ({ item, score: similarity(slug, itemSlug(item)) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => candidate.item);
+
+export const resolveArtworkSlug = <T extends ResolvableArtwork>(
+  items: T[],
+  slug: string
+): SlugResolution<T> => {
+  const exact = items.find(item => item.slug === slug);
+  if (exact) return { kind: 'exact', item: exact };
+
+  for (const rule of slugMatchTable) {
+    const target = rule.key(slug);
+    if (!target) continue;
+    const keysOf = rule.itemKeys ?? defaultItemKeys(rule);
+    const matches = items.filter(item => keysOf(item).includes(target));
+    if (matches.length === 1) return { kind: 'redirect', item: matches[0], rule: rule.name };
+  }
+
+  return { kind: 'not-found', suggestions: suggestArtworks(items, slug) };
+};
+
+export const getCanonicalArtworkPath = (item: ResolvableArtwork, lang: 'es' | 'en') =>
+  getArtworkRoute(itemSlug(item))[lang];
@@ -0,0 +1,123 @@
+import { Buffer } from 'node:buffer';
+import { randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { getEnvValue } from './env';
+
+export const STAFF_ROLES = ['issue-certificates', 'view-leads', 'manage-catalog'] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+export type StaffUser = {
+  username: string;
+  name?: string;
+  passwordHash: string;
+  roles: StaffRole[];
+};
+
+// Format partagé avec scripts/staff-users.mjs : scrypt$N$r$p$sel$hash (base64url).
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+export const hashPassword = (password: string) => {
+  const salt = randomBytes(16);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = scryptSync(password, salt, KEY_LENGTH, { N, r, p });
+  return `scrypt$${N}$${r}$${p}$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+};
+
+export const verifyPassword = (password: string, stored: string) => {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64url');
+  try {
+    const actual = scryptSync(password, Buffer.from(salt, 'base64url'), expected.length, {
+      N: Number(N),
+      r: Number(r),
+      p: Number(p),
+    });
+    return timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+};
+
+const isStaffRole = (value: unknown): value is StaffRole =>
+  STAFF_ROLES.includes(value as StaffRole);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const normalizeUsers = (value: unknown): StaffUser[] => {
+  const list: unknown[] = Array.isArray(value)
+    ? value
+    : isRecord(value) && Array.isArray(value.users)
+      ? value.users
+      : [];
+  return list.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const { username, name, passwordHash, roles } = item;
+    if (typeof username !== 'string' || typeof passwordHash !== 'string') return [];
+    return [
+      {
+        username: username.trim().toLowerCase(),
+        name: typeof name === 'string' ? name : undefined,
+        passwordHash,
+        roles: Array.isArray(roles) ? roles.filter(isStaffRole) : [],
+      },
+    ];
+  });
+};
+
+const readUsersFile = (path: string) => {
+  try {
+    return normalizeUsers(JSON.parse(readFileSync(resolve(path), 'utf8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.warn('COA staff users file unreadable', error);
+    }
+    return [];
+  }
+};
+
+// Ancien couple COA_USER / COA_PASSWORD : conservé le temps de migrer vers la liste hachée.
+const legacyUser = (): StaffUser | null => {
+  const username = getEnvValue(['COA_USER'])?.trim().toLowerCase();
+  const password = getEnvValue(['COA_PASSWORD']);
+  if (!username || !password) return null;
+  return { username, passwordHash: hashPassword(password), roles: [...STAFF_ROLES] };
+};
+
+let cachedUsers: StaffUser[] | null = null;
+
+export const getStaffUsers = () => {
+  if (cachedUsers) return cachedUsers;
+  const fromEnv = getEnvValue(['COA_USERS']);
+  let users: StaffUser[] = [];
+  if (fromEnv) {
+    try {
+      users = normalizeUsers(JSON.parse(fromEnv));
+    } catch (error) {
+      console.warn('COA_USERS is not valid JSON', error);
+    }
+  } else {
+    users = readUsersFile(getEnvValue(['COA_USERS_FILE']) ?? 'data/staff-users.json');
+  }
+  if (users.length === 0) {
+    const legacy = legacyUser();
+    if (legacy) users = [legacy];
+  }
+  cachedUsers = users;
+  return users;
+};
+
+export const getStaffUser = (username: string) =>
+  getStaffUsers().find(user => user.username === username.trim().toLowerCase()) ?? null;
+
+// Hash factice pour que la réponse prenne le même temps que l'utilisateur existe ou non.
+const dummyHash = hashPassword(randomBytes(8).toString('hex'));
+
+export const authenticateStaff = (username: string, password: string) => {
+  const user = getStaffUser(username);
+  const valid = verifyPassword(password, user?.passwordHash ?? dummyHash);
+  return user && valid ? user : null;
+};
@@ -0,0 +1,42 @@
+import { Buffer } from 'node:buffer';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { getEnvValue } from './env';
+import { CACHE_TAGS } from './wp';
+
+type WebhookProduct = { id?: number; slug?: string | null; translations?: Record<string, number | string> | null };
+
+export const getWooWebhookSecret = () => getEnvValue(['WC_WEBHOOK_SECRET'])?.trim() || null;
+
+// WooCommerce signe le corps brut : base64(HMAC-SHA256(corps, secret)) dans X-WC-Webhook-Signature.
+export const verifyWooWebhookSignature = (rawBody: string, signature: string | null, secret: string) => {
+  if (!signature) return false;
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody, 'utf8').digest('base64'));
+  const received = Buffer.from(signature.trim());
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+// Étiquettes à purger pour un événement produit ; null si le sujet ne concerne pas le catalogue.
+export const getWebhookPurgeTags = (topic: string, payload: WebhookProduct) => {
+  const [resource, event] = topic.split('.');
+  if (resource !== 'product' || typeof payload.id !== 'number') return null;
+
+  const tags = [CACHE_TAGS.product(payload.id)];
+  if (payload.slug) tags.push(CACHE_TAGS.slug(payload.slug));
+  for (const id of Object.values(payload.translations ?? {})) {
+    if (Number(id) > 0) tags.push(CACHE_TAGS.product(Number(id)));
+  }
+
+  switch (event) {
+    // Un nouveau produit peut entrer dans n'importe quelle liste.
+    case 'created':
+    case 'restored':
+      return [...tags, CACHE_TAGS.lists];
+    // Catégorie, étiquette ou stock modifiés : il peut rejoindre une liste filtrée où il n'était pas.
+    case 'updated':
+      return [...tags, CACHE_TAGS.filteredLists];
+    case 'deleted':
+      return tags;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,298 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isSourceLangProduct, mapProduct, type WooProduct } from './wp';
+
+const product = (overrides: Partial<WooProduct> = {}): WooProduct => ({
+  id: 42,
+  name: 'Mujer con luna 36x48 oleo',
+  slug: 'mujer-con-luna-36x48-oleo',
+  permalink: 'https://wp.example/producto/mujer-con-luna/',
+  images: [{ src: 'https://wp.example/uploads/mujer-1024x768.jpg' }],
+  ...overrides,
+});
+
+describe('mapProduct', () => {
+  it('maps the basic fields and cleans the title', () => {
+    const mapped = mapProduct(product());
+    expect(mapped).toMatchObject({
+      id: 42,
+      title: 'Mujer con luna',
+      slug: 'mujer-con-luna-36x48-oleo',
+      link: 'https://wp.example/producto/mujer-con-luna/',
+      dimensions: '36 x 48',
+      medium: 'Óleo',
+      availability: 'available',
+    });
+  });
+
+  describe('prices', () => {
+    it.each([
+      { price: '1500', regular_price: '1800', expected: 1500 },
+      { price: '', regular_price: '1800', expected: 1800 },
+      { price: '0', regular_price: '950.5', expected: 950.5 },
+      { price: 'abc', regular_price: null, expected: null },
+      { price: null, regular_price: undefined, expected: null },
+    ])('$price / $regular_price → $expected', ({ price, regular_price, expected }) => {
+      const mapped = mapProduct(product({ price, regular_price }));
+      expect(mapped?.price).toBe(expected);
+      if (expected === null) expect(mapped?.priceText).toBeNull();
+      else expect(mapped?.priceText).toMatch(/USD$/);
+    });
+  });
+
+  describe('images', () => {
+    it('uses the srcset entry closest to the list width and keeps the full-size original', () => {
+      const mapped = mapProduct(
+        product({
+          images: [
+            {
+              src: 'http://wp.example/uploads/mujer-300x400.jpg',
+              srcset:
+                'http://wp.example/uploads/mujer-300x400.jpg 300w, http://wp.example/uploads/mujer-768x1024.jpg 768w, http://wp.example/uploads/mujer-1536x2048.jpg 1536w',
+              sizes: '(max-width: 768px) 100vw, 768px',
+            },
+          ],
+        })
+      );
+      expect(mapped?.image).toBe('https://wp.example/uploads/mujer-768x1024.jpg');
+      expect(mapped?.imageFull).toBe('https://wp.example/uploads/mujer.jpg');
+      expect(mapped?.imageSrcSet).toContain('https://wp.example/uploads/mujer-1536x2048.jpg 1536w');
+      expect(mapped?.imageSizes).toBe('(max-width: 768px) 100vw, 768px');
+    });
+
+    it('adds images found in the description without duplicates', () => {
+      const mapped = mapProduct(
+        product({
+          description:
+            '<p><img src="https://wp.example/uploads/mujer-1024x768.jpg"><img src="https://wp.example/uploads/detalle.webp"></p>',
+        })
+      );
+      expect(mapped?.images?.map(image => image.src)).toEqual([
+        'https://wp.example/uploads/mujer-1024x768.jpg',
+        'https://wp.example/uploads/detalle.webp',
+      ]);
+    });
+
+    it('has no image when WooCommerce sends none', () => {
+      const mapped = mapProduct(product({ images: [] }));
+      expect(mapped?.image).toBeNull();
+      expect(mapped?.images).toEqual([]);
+    });
+  });
+
+  describe('meta', () => {
+    it('reads the availability and translation meta', () => {
+      const mapped = mapProduct(
+        product({
+          meta_data: [
+            { key: '_mlag_availability', value: 'Vendida' },
+            { key: '_mlag_title_en', value: 'Woman with <em>moon</em>' },
+            { key: '_mlag_medium_en', value: 'Oil' },
+            { key: '_unrelated', value: 'x' },
+          ],
+        })
+      );
+      expect(mapped?.availability).toBe('sold');
+      expect(mapped?.translations).toEqual({ en: { title: 'Woman with moon', medium: 'Oil' } });
+    });
+
+    it('derives availability from tags, then stock status', () => {
+      expect(mapProduct(product({ tags: [{ id: 1, name: 'Reservada', slug: 'reservada' }] }))?.availability).toBe(
+        'reserved'
+      );
+      expect(mapProduct(product({ stock_status: 'outofstock' }))?.availability).toBe('sold');
+      expect(mapProduct(product({ stock_status: 'nonsense' }))?.stockStatus).toBeNull();
+    });
+
+    it('keeps linked translation ids other than its own', () => {
+      const mapped = mapProduct(product({ translations: { es: 42, en: '57', fr: 9 } }));
+      expect(mapped?.translationIds).toEqual({ en: 57 });
+    });
+
+    it('reads modification dates as UTC', () => {
+      expect(mapProduct(product({ date_modified_gmt: '2026-03-01T10:00:00' }))?.modifiedAt).toBe(
+        '2026-03-01T10:00:00.000Z'
+      );
+      expect(mapProduct(product({ date_modified_gmt: 'not a date' }))?.modifiedAt).toBeNull();
+    });
+  });
+
+  it.each([
+    [undefined, true],
+    ['', true],
+    ['es', true],
+    ['es_MX', true],
+    ['en', false],
+  ])('lists a product in language %j: %s', (lang, expected) => {
+    expect(isSourceLangProduct(product({ lang }))).toBe(expected);
+  });
+
+  describe('dimensions', () => {
+    it('prefers the numeric WooCommerce dimensions', () => {
+      const mapped = mapProduct(product({ dimensions: { width: '24', height: '30', length: '1.5' } }));
+      expect(mapped?.size).toMatchObject({ width: 24, height: 30, depth: 1.5, unit: 'in', orientation: 'portrait' });
+    });
+
+    it('falls back to an attribute carrying a unit', () => {
+      const mapped = mapProduct(
+        product({
+          name: 'Tormenta',
+          slug: 'tormenta',
+          attributes: [{ name: '100 x 80 cm', options: ['Acrílico'] }],
+        })
+      );
+      expect(mapped?.size).toMatchObject({ width: 100, height: 80, unit: 'cm', orientation: 'landscape' });
+      expect(mapped?.medium).toBe('Acrílico');
+    });
+
+    it('falls back to the slug and permalink text', () => {
+      const mapped = mapProduct(
+        product({ name: 'Danza', slug: 'danza', permalink: 'https://wp.example/producto/danza-40x40-acrilico/' })
+      );
+      expect(mapped?.dimensions).toBe('40 x 40');
+      expect(mapped?.size?.orientation).toBe('square');
+      expect(mapped?.medium).toBe('Acrílico');
+    });
+
+    it('has no size when nothing describes one', () => {
+      const mapped = mapProduct(product({ name: 'Danza', slug: 'danza', permalink: null }));
+      expect(mapped?.dimensions).toBeNull();
+      expect(mapped?.size).toBeNull();
+    });
+  });
+
+  describe('null and garbage input', () => {
+    it.each([null, undefined, '', '   ', '<p></p>'])('returns null for the name %j', name => {
+      expect(mapProduct(product({ name }))).toBeNull();
+    });
+
+    it('survives missing or malformed collections', () => {
+      const mapped = mapProduct({
+        id: 7,
+        name: 'Espirales',
+        slug: null,
+        permalink: null,
+        images: null as unknown as WooProduct['images'],
+        attributes: 'oops' as unknown as WooProduct['attributes'],
+        categories: [{ name: 'sin id' }, { id: 3, slug: 'lunas', name: 'Lunas' }],
+        tags: null as unknown as WooProduct['tags'],
+        meta_data: [null, { key: 123 }] as unknown as WooProduct['meta_data'],
+        translations: null,
+        dimensions: { width: '-4', height: 'abc' },
+      });
+      expect(mapped).toMatchObject({
+        id: 7,
+        title: 'Espirales',
+        slug: '',
+        link: '',
+        image: null,
+        images: [],
+        size: null,
+        categories: [{ id: 3, name: 'Lunas', slug: 'lunas' }],
+        tags: [],
+        translations: {},
+        translationIds: {},
+        availability: 'available',
+      });
+    });
+  });
+});
+
+describe('WooCommerce paging', () => {
+  const requests: URL[] = [];
+
+  // Catalogue de `total` produits servi page par page, avec l'en-tête X-WP-TotalPages de WordPress.
+  const serveCatalog = (total: number, options: { totalPagesHeader?: number; metaKey?: string } = {}) => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (input: string, init?: RequestInit) => {
+        const url = new URL(input);
+        requests.push(url);
+        if (init?.method === 'PUT') return new Response('{}');
+        const perPage = Number(url.searchParams.get('per_page'));
+        const page = Number(url.searchParams.get('page'));
+        const count = Math.max(0, Math.min(perPage, total - (page - 1) * perPage));
+        const items = Array.from({ length: count }, (_, index) => {
+          const id = (page - 1) * perPage + index + 1;
+          return product({
+            id,
+            slug: `obra-${id}`,
+            meta_data: options.metaKey && id % 50 === 0 ? [{ key: options.metaKey, value: [id] }] : [],
+          });
+        });
+        const totalPages = options.totalPagesHeader ?? Math.ceil(total / perPage);
+        return new Response(JSON.stringify(items), {
+          headers: { 'X-WP-TotalPages': String(totalPages) },
+        });
+      })
+    );
+  };
+
+  const loadWp = async () => {
+    vi.resetModules();
+    vi.stubEnv('WP_API_BASE', 'https://wp.example/wp-json');
+    vi.stubEnv('CATALOG_CACHE', 'memory');
+    return import('./wp');
+  };
+
+  const pages = () => requests.map(url => [url.searchParams.get('page'), url.searchParams.get('per_page')]);
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('follows X-WP-TotalPages with a constant page size up to the short last page', async () => {
+    serveCatalog(237);
+    const wp = await loadWp();
+    const products = await wp.loadCatalogForSnapshot();
+    expect(products).toHaveLength(237);
+    expect(new Set(products.map(item => item.id)).size).toBe(237);
+    expect(pages()).toEqual([
+      ['1', '100'],
+      ['2', '100'],
+      ['3', '100'],
+    ]);
+  });
+
+  it('stops on a short page even if more pages are announced', async () => {
+    serveCatalog(120, { totalPagesHeader: 4 });
+    const wp = await loadWp();
+    expect(await wp.loadCatalogForSnapshot()).toHaveLength(120);
+    expect(pages()).toHaveLength(2);
+  });
+
+  it('keeps the page size and stops fetching once the limit is reached', async () => {
+    serveCatalog(500);
+    const wp = await loadWp();
+    const products = await wp.getProducts(150);
+    expect(products.map(item => item.id)).toEqual(Array.from({ length: 150 }, (_, index) => index + 1));
+    expect(pages()).toEqual([
+      ['1', '100'],
+      ['2', '100'],
+    ]);
+  });
+
+  it('uses the requested size for a single small page', async () => {
+    serveCatalog(500);
+    const wp = await loadWp();
+    expect(await wp.getProducts(12)).toHaveLength(12);
+    expect(pages()).toEqual([['1', '12']]);
+  });
+
+  it('walks the catalogue once for meta entries until a meta write purges them', async () => {
+    serveCatalog(237, { metaKey: '_mlag_certificates' });
+    const wp = await loadWp();
+    const first = await wp.getProductMetaEntries('_mlag_certificates');
+    expect(first.map(entry => entry.productId)).toEqual([50, 100, 150, 200]);
+    expect(await wp.getProductMetaEntries('_mlag_certificates')).toEqual(first);
+    expect(requests).toHaveLength(3);
+
+    await wp.setProductMeta(50, '_mlag_certificates', [50, 51]);
+    await wp.getProductMetaEntries('_mlag_certificates');
+    expect(requests).toHaveLength(3 + 1 + 3);
+  });
+});
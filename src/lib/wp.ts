@@ -1,7 +1,28 @@
 import { Buffer } from 'node:buffer';
+import {
+  SOURCE_LANG,
+  localizeArtwork,
+  parseContentLang,
+  readTranslationMeta,
+  type ArtworkTranslations,
+  type ContentLang,
+} from './artworkTranslations';
+import { AVAILABILITY_META_KEY, deriveAvailability, type ArtworkAvailability } from './availability';
+import {
+  fromWooDimensions,
+  parseDimensions,
+  type ArtworkDimensions,
+} from './dimensions';
+import { cached, purgeCacheTags } from './catalogCache';
+import { findSnapshotProduct, querySnapshotProducts } from './catalogSnapshot';
+import { formatMoney } from './currency';
 import { getEnvValue } from './env';
 
-type ProductCard = {
+export type ProductTerm = { id: number; name: string; slug: string };
+
+export type StockStatus = 'instock' | 'outofstock' | 'onbackorder';
+
+export type ProductCard = {
   id: number;
   title: string;
   slug: string;
@@ -11,40 +32,94 @@ type ProductCard = {
   imageSrcSet?: string | null;
   imageSizes?: string | null;
   images?: ProductImage[];
+  price?: number | null;
   priceText?: string | null;
   dimensions?: string | null;
+  size?: ArtworkDimensions | null;
   medium?: string | null;
   description?: string | null;
+  stockStatus?: StockStatus | null;
+  availability?: ArtworkAvailability;
+  // Date de dernière modification WooCommerce (ISO 8601, UTC).
+  modifiedAt?: string | null;
+  categories?: ProductTerm[];
+  tags?: ProductTerm[];
+  // Traductions saisies en méta, et identifiants des produits traduits (WPML / Polylang).
+  translations?: ArtworkTranslations;
+  translationIds?: Partial<Record<ContentLang, number>>;
+  descriptionLang?: ContentLang;
 };
 
-type ProductImage = {
+export type ProductImage = {
   src: string;
   full?: string | null;
   srcSet?: string | null;
   sizes?: string | null;
 };
 
+// Sous-ensemble de la réponse /wc/v3/products réellement lu par le site (voir PRODUCT_FIELDS).
+export type WooImage = {
+  src?: string | null;
+  thumbnail?: string | null;
+  srcset?: string | null;
+  sizes?: string | null;
+};
+
+export type WooAttribute = { name?: string | null; options?: Array<string | number> };
+
+export type WooProduct = {
+  id: number;
+  name?: string | null;
+  slug?: string | null;
+  permalink?: string | null;
+  images?: WooImage[];
+  price?: string | null;
+  regular_price?: string | null;
+  dimensions?: { width?: string; height?: string; length?: string } | null;
+  description?: string | null;
+  attributes?: WooAttribute[];
+  stock_status?: string | null;
+  date_modified_gmt?: string | null;
+  categories?: Array<Partial<ProductTerm>>;
+  tags?: Array<Partial<ProductTerm>>;
+  meta_data?: Array<{ id?: number; key: string; value: unknown }>;
+  // Ajoutés par WPML ou Polylang : langue du produit et identifiants de ses traductions.
+  lang?: string | null;
+  translations?: Record<string, number | string> | null;
+};
+
+export type ProductQuery = {
+  // Nombre maximal de produits ; Infinity parcourt tout le catalogue.
+  limit?: number;
+  // Identifiant numérique ou slug WooCommerce.
+  category?: number | string | null;
+  tag?: number | string | null;
+  stockStatus?: StockStatus | null;
+  search?: string | null;
+};
+
 const baseUrl =
   (getEnvValue(['WP_API_BASE', 'PUBLIC_WP_API_BASE']) ?? '').replace(/\/$/, '') || '';
 const username = getEnvValue(['WP_USERNAME']);
 const appPassword = getEnvValue(['WP_APP_PASSWORD']);
 
-const DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
-const cacheTtlMs = (() => {
-  const rawTtl = getEnvValue(['WP_CACHE_TTL_MS', 'WP_CACHE_TTL']);
-  if (!rawTtl) return DEFAULT_CACHE_TTL_MS;
-  const parsed = Number(rawTtl);
-  if (!Number.isFinite(parsed)) return DEFAULT_CACHE_TTL_MS;
-  return Math.max(0, parsed);
-})();
-
 const authHeader =
   username && appPassword
     ? `Basic ${Buffer.from(`${username}:${appPassword}`).toString('base64')}`
     : '';
 
-type CacheEntry = { items: ProductCard[]; limit: number; expiresAt: number };
-let productsCache: CacheEntry | null = null;
+const PRODUCT_FIELDS =
+  'id,name,slug,permalink,images,price,regular_price,dimensions,description,attributes,stock_status,date_modified_gmt,categories,tags,meta_data,lang,translations';
+const MAX_PER_PAGE = 100;
+
+// Étiquettes de cache purgées par /api/revalidate quand WooCommerce signale un changement.
+export const CACHE_TAGS = {
+  lists: 'products',
+  filteredLists: 'products:filtered',
+  product: (id: number) => `product:${id}`,
+  slug: (slug: string) => `slug:${slug}`,
+  meta: (key: string) => `meta:${key}`,
+};
 
 const buildUrl = (path: string) => {
   if (!baseUrl) {
@@ -170,26 +245,19 @@ const pickListImageFromSrcSet = (srcset?: string | null, targetWidth = 768) => {
   return sorted[0].url;
 };
 
-const formatPrice = (price?: string | null, regular?: string | null) => {
+const parsePrice = (price?: string | null, regular?: string | null) => {
   const numeric = price && !Number.isNaN(Number(price)) ? Number(price) : null;
-  const regularNumeric =
-    regular && !Number.isNaN(Number(regular)) ? Number(regular) : null;
-
-  if (numeric !== null && numeric > 0) {
-    return `$${numeric.toLocaleString('en-US', {
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 2,
-    })} USD`;
-  }
-  if (regularNumeric !== null && regularNumeric > 0) {
-    return `$${regularNumeric.toLocaleString('en-US', {
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 2,
-    })} USD`;
-  }
+  if (numeric !== null && numeric > 0) return numeric;
+  const regularNumeric = regular && !Number.isNaN(Number(regular)) ? Number(regular) : null;
+  if (regularNumeric !== null && regularNumeric > 0) return regularNumeric;
   return null;
 };
 
+const formatPrice = (price?: string | null, regular?: string | null) => {
+  const numeric = parsePrice(price, regular);
+  return numeric === null ? null : formatMoney(numeric, 'USD');
+};
+
 const deriveDimensions = (
   name: string,
   dimensions?: { width?: string; height?: string; length?: string },
@@ -213,7 +281,7 @@ const deriveDimensions = (
 };
 
 const deriveMedium = (
-  attributes: Array<Record<string, any>>,
+  attributes: WooAttribute[],
   name?: string,
   slug?: string,
   permalink?: string,
@@ -237,7 +305,7 @@ const deriveMedium = (
   return null;
 };
 
-const deriveDimensionsFromAttributes = (attributes: Array<Record<string, any>>) => {
+const deriveDimensionsFromAttributes = (attributes: WooAttribute[]) => {
   const fromAttributes = getDimensionsFromAttributes(attributes);
   if (!fromAttributes) return null;
   const extracted = extractDimensionsFromText(fromAttributes);
@@ -246,28 +314,71 @@ const deriveDimensionsFromAttributes = (attributes: Array<Record<string, any>>)
   return normalized || null;
 };
 
-const mapProduct = (item: Record<string, any>): ProductCard | null => {
+const mapTerms = (terms?: Array<Partial<ProductTerm>>) =>
+  (Array.isArray(terms) ? terms : [])
+    .filter(term => typeof term?.id === 'number' && term.slug)
+    .map(term => ({
+      id: term.id as number,
+      name: stripTags(term.name) || String(term.slug),
+      slug: String(term.slug),
+    }));
+
+const mapTranslationIds = (item: WooProduct) => {
+  const ids: Partial<Record<ContentLang, number>> = {};
+  for (const [lang, value] of Object.entries(item.translations ?? {})) {
+    const key = parseContentLang(lang);
+    const id = Number(value);
+    if (key && Number.isInteger(id) && id > 0 && id !== item.id) ids[key] = id;
+  }
+  return ids;
+};
+
+// Avec WPML / Polylang, les traductions sont des produits à part : seul l'original espagnol est
+// listé, la copie anglaise est lue ensuite par localizeProducts. Sans extension, pas de langue.
+export const isSourceLangProduct = (item: WooProduct) =>
+  item.lang == null || item.lang === '' || parseContentLang(item.lang) === SOURCE_LANG;
+
+// Les dates *_gmt de WooCommerce n'ont pas de fuseau : ce sont des dates UTC.
+const parseWooDate = (value?: string | null) => {
+  if (!value) return null;
+  const date = new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(value) ? value : `${value}Z`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const STOCK_STATUSES: StockStatus[] = ['instock', 'outofstock', 'onbackorder'];
+
+const normalizeStockStatus = (value?: string | null) =>
+  STOCK_STATUSES.find(status => status === value) ?? null;
+
+export const mapProduct = (item: WooProduct): ProductCard | null => {
   const rawTitle = normalizeMediumText(stripTags(item.name));
   if (!rawTitle) return null;
   const title = cleanProductTitle(rawTitle);
   const attributes = Array.isArray(item.attributes) ? item.attributes : [];
   const dimensions =
     deriveDimensionsFromAttributes(attributes) ||
-    deriveDimensions(rawTitle, item.dimensions, item.slug, item.permalink);
+    deriveDimensions(rawTitle, item.dimensions ?? undefined, item.slug ?? undefined, item.permalink ?? undefined);
+  // Les champs numériques WooCommerce priment ; sinon l'attribut (qui peut porter « cm »), puis le texte.
+  const size =
+    fromWooDimensions(item.dimensions) ??
+    parseDimensions(getDimensionsFromAttributes(attributes)) ??
+    parseDimensions(dimensions);
   const medium = deriveMedium(
     attributes,
     rawTitle,
-    item.slug,
-    item.permalink,
-    typeof item.description === 'string' ? item.description : null
+    item.slug ?? undefined,
+    item.permalink ?? undefined,
+    typeof item.description === 'string' ? item.description : undefined
   );
   const priceText = formatPrice(item.price, item.regular_price);
+  const stockStatus = normalizeStockStatus(item.stock_status);
+  const tags = mapTerms(item.tags);
   const galleryImages = Array.isArray(item.images)
     ? item.images
         .map(mapProductImage)
         .filter((image): image is ProductImage => Boolean(image))
     : [];
-  const descriptionImages = extractImageSrcs(item.description).map(src => ({
+  const descriptionImages = extractImageSrcs(item.description).map((src): ProductImage => ({
     src,
     full: normalizeFullImage(src) || src,
   }));
@@ -284,21 +395,34 @@ const mapProduct = (item: Record<string, any>): ProductCard | null => {
   return {
     id: item.id,
     title,
-    slug: item.slug,
-    link: item.permalink,
+    slug: item.slug ?? '',
+    link: item.permalink ?? '',
     image,
     imageFull,
     imageSrcSet,
     imageSizes,
     images,
+    price: parsePrice(item.price, item.regular_price),
     priceText,
     dimensions,
+    size,
     medium,
     description,
+    stockStatus,
+    availability: deriveAvailability({
+      stockStatus,
+      tagSlugs: tags.map(tag => tag.slug),
+      metaValue: item.meta_data?.find(entry => entry?.key === AVAILABILITY_META_KEY)?.value,
+    }),
+    modifiedAt: parseWooDate(item.date_modified_gmt),
+    categories: mapTerms(item.categories),
+    tags,
+    translations: readTranslationMeta(item.meta_data),
+    translationIds: mapTranslationIds(item),
   };
 };
 
-const getDimensionsFromAttributes = (attributes: Array<Record<string, any>>) => {
+const getDimensionsFromAttributes = (attributes: WooAttribute[]) => {
   for (const attr of attributes ?? []) {
     const name = stripTags(attr?.name).trim();
     if (name) return name;
@@ -306,7 +430,7 @@ const getDimensionsFromAttributes = (attributes: Array<Record<string, any>>) =>
   return null;
 };
 
-const getMediumFromAttributes = (attributes: Array<Record<string, any>>) => {
+const getMediumFromAttributes = (attributes: WooAttribute[]) => {
   for (const attr of attributes ?? []) {
     const options = Array.isArray(attr?.options) ? attr.options : [];
     for (const option of options) {
@@ -327,9 +451,7 @@ const extractImageSrcs = (html?: string | null) => {
     .filter((src): src is string => Boolean(src));
 };
 
-const extractFirstImageSrc = (html?: string | null) => extractImageSrcs(html)[0] ?? null;
-
-const mapProductImage = (item: Record<string, any>): ProductImage | null => {
+export const mapProductImage = (item: WooImage): ProductImage | null => {
   const src =
     pickListImageFromSrcSet(item?.srcset) ||
     normalizeImage(item?.thumbnail) ||
@@ -345,87 +467,315 @@ const mapProductImage = (item: Record<string, any>): ProductImage | null => {
 };
 
 
-const getCachedProducts = (limit: number) => {
-  if (!productsCache) return null;
-  const { expiresAt, items, limit: cachedLimit } = productsCache;
-  if (cachedLimit < limit) return null;
+// Autres contenus WordPress (événements…) : même base et mêmes identifiants que le catalogue.
+export const fetchWpCollection = async <T>(path: string, params: Record<string, string> = {}) => {
+  if (!baseUrl) return null;
+  const items: T[] = [];
+  for (let page = 1; ; page += 1) {
+    const url = new URL(`${baseUrl}${path}`);
+    for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+    url.searchParams.set('per_page', String(MAX_PER_PAGE));
+    url.searchParams.set('page', String(page));
 
-  const isFresh = cacheTtlMs > 0 && expiresAt > Date.now();
-  return isFresh ? items.slice(0, limit) : null;
+    const res = await fetchFromWP(url.toString());
+    if (!res.ok) {
+      throw new Error(`WP ${path} fetch failed: ${res.status} ${res.statusText}`);
+    }
+    const batch = (await res.json()) as T[];
+    items.push(...batch);
+    const totalPages = Number(res.headers.get('X-WP-TotalPages') ?? page);
+    if (batch.length < MAX_PER_PAGE || page >= totalPages) return items;
+  }
 };
 
-const getStaleProducts = (limit: number) => {
-  if (!productsCache) return null;
-  if (productsCache.limit < limit) return null;
-  return productsCache.items.slice(0, limit);
+const toSafeLimit = (limit?: number) => {
+  if (limit === Infinity) return Infinity;
+  return Math.max(Math.floor(limit || 0), 1);
 };
 
-const setCache = (items: ProductCard[], limit: number) => {
-  productsCache = {
-    items,
-    limit,
-    expiresAt: Date.now() + cacheTtlMs,
-  };
+const queryKey = ({ category, tag, stockStatus, search }: ProductQuery, limit: number) =>
+  JSON.stringify([
+    category ?? null,
+    tag ?? null,
+    stockStatus ?? null,
+    search?.trim() || null,
+    Number.isFinite(limit) ? limit : 'all',
+  ]);
+
+const hasQueryFilters = ({ category, tag, stockStatus, search }: ProductQuery) =>
+  [category, tag, stockStatus, search?.trim()].some(value => value != null && value !== '');
+
+const termIdCache = new Map<string, number | null>();
+
+// L'API WooCommerce ne filtre que par identifiant : les slugs sont résolus une fois puis gardés.
+const resolveTermId = async (taxonomy: 'categories' | 'tags', value: number | string) => {
+  if (typeof value === 'number') return value;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+
+  const cacheKey = `${taxonomy}:${trimmed}`;
+  if (termIdCache.has(cacheKey)) return termIdCache.get(cacheKey) ?? null;
+
+  const url = new URL(`${baseUrl}/wc/v3/products/${taxonomy}`);
+  url.searchParams.set('slug', trimmed);
+  url.searchParams.set('_fields', 'id,slug');
+  const res = await fetchFromWP(url.toString());
+  if (!res.ok) {
+    throw new Error(`WP ${taxonomy} fetch failed: ${res.status} ${res.statusText}`);
+  }
+  const terms = (await res.json()) as Array<Partial<ProductTerm>>;
+  const id = typeof terms[0]?.id === 'number' ? terms[0].id : null;
+  termIdCache.set(cacheKey, id);
+  return id;
 };
 
-export const getProducts = async (limit = 100): Promise<ProductCard[]> => {
-  if (!baseUrl) return [];
-  const safeLimit = Math.min(Math.max(Math.floor(limit || 0), 1), 100);
-
-  const cached = getCachedProducts(safeLimit);
-  if (cached) return cached;
-
-  const stale = getStaleProducts(safeLimit);
-  const url = new URL(`${baseUrl}/wc/v3/products`);
-  url.searchParams.set('per_page', String(safeLimit));
-  url.searchParams.set('order', 'desc');
-  url.searchParams.set('orderby', 'date');
-  url.searchParams.set(
-    '_fields',
-    'id,name,slug,permalink,images,price,regular_price,dimensions,description,attributes'
-  );
+// Parcourt les pages de /wc/v3/products en suivant X-WP-TotalPages.
+const fetchProductPages = async (
+  params: Record<string, string>,
+  limit: number,
+  onPage: (items: WooProduct[]) => number
+) => {
+  let collected = 0;
+  // Taille de page constante : WooCommerce calcule le décalage comme (page - 1) × per_page.
+  const perPage = Math.min(MAX_PER_PAGE, limit);
+  for (let page = 1; ; page += 1) {
+    const url = new URL(`${baseUrl}/wc/v3/products`);
+    for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+    url.searchParams.set('per_page', String(perPage));
+    url.searchParams.set('page', String(page));
 
-  try {
     const res = await fetchFromWP(url.toString());
     if (!res.ok) {
-      console.warn('WP products fetch failed', res.status, res.statusText);
-      return stale ?? [];
+      throw new Error(`WP products fetch failed: ${res.status} ${res.statusText}`);
     }
-    const items = (await res.json()) as Array<Record<string, any>>;
-    const products = items
-      .map(mapProduct)
-      .filter((item): item is ProductCard => Boolean(item?.image));
+    const items = (await res.json()) as WooProduct[];
+    collected += onPage(items);
+
+    const totalPages = Number(res.headers.get('X-WP-TotalPages') ?? page);
+    const complete = items.length < perPage || page >= totalPages;
+    if (complete) return true;
+    if (collected >= limit) return false;
+  }
+};
+
+const buildProductParams = async (query: ProductQuery) => {
+  const params: Record<string, string> = {
+    order: 'desc',
+    orderby: 'date',
+    _fields: PRODUCT_FIELDS,
+    // Filtre REST de WPML / Polylang ; ignoré par WooCommerce sans extension.
+    lang: SOURCE_LANG,
+  };
+  if (query.category != null && query.category !== '') {
+    const id = await resolveTermId('categories', query.category);
+    if (id === null) return null;
+    params.category = String(id);
+  }
+  if (query.tag != null && query.tag !== '') {
+    const id = await resolveTermId('tags', query.tag);
+    if (id === null) return null;
+    params.tag = String(id);
+  }
+  if (query.stockStatus) params.stock_status = query.stockStatus;
+  if (query.search?.trim()) params.search = query.search.trim();
+  return params;
+};
 
-    setCache(products, safeLimit);
-    return products;
+const loadProducts = async (query: ProductQuery, limit: number) => {
+  const params = await buildProductParams(query);
+  // Catégorie ou étiquette inconnue : aucun produit ne peut correspondre.
+  if (!params) return [];
+
+  const products: ProductCard[] = [];
+  await fetchProductPages(params, limit, items => {
+    products.push(
+      ...items
+        .filter(isSourceLangProduct)
+        .map(mapProduct)
+        .filter((item): item is ProductCard => Boolean(item?.image))
+    );
+    return items.length;
+  });
+  return products.slice(0, limit);
+};
+
+// Sans WP_API_BASE (développement local) ou sans réponse ni cache, l'instantané du catalogue prend le relais.
+export const getProducts = async (query: ProductQuery | number = {}): Promise<ProductCard[]> => {
+  const options = typeof query === 'number' ? { limit: query } : query;
+  const safeLimit = toSafeLimit(options.limit ?? MAX_PER_PAGE);
+  if (!baseUrl) return querySnapshotProducts(options, safeLimit);
+
+  try {
+    return await cached(`products:${queryKey(options, safeLimit)}`, () => loadProducts(options, safeLimit), {
+      tags: items => [
+        CACHE_TAGS.lists,
+        ...(hasQueryFilters(options) ? [CACHE_TAGS.filteredLists] : []),
+        ...items.map(item => CACHE_TAGS.product(item.id)),
+      ],
+    });
   } catch (error) {
-    console.warn('WP products fetch error', error);
-    return stale ?? [];
+    console.warn('WP products fetch error, serving catalog snapshot', error);
+    return querySnapshotProducts(options, safeLimit);
   }
 };
 
-export const getProductBySlug = async (slug: string): Promise<ProductCard | null> => {
-  if (!baseUrl) return null;
+// Utilisé par npm run catalog-snapshot : échoue au lieu de retomber sur le cache ou l'instantané.
+export const loadCatalogForSnapshot = () => {
+  if (!baseUrl) throw new Error('Missing WP_API_BASE');
+  return loadProducts({}, Infinity);
+};
+
+export const getAllProducts = (query: Omit<ProductQuery, 'limit'> = {}) =>
+  getProducts({ ...query, limit: Infinity });
+
+const loadProductBySlug = async (slug: string) => {
   const url = new URL(`${baseUrl}/wc/v3/products`);
   url.searchParams.set('slug', slug);
   url.searchParams.set('per_page', '1');
-  url.searchParams.set(
-    '_fields',
-    'id,name,slug,permalink,images,price,regular_price,dimensions,description,attributes'
-  );
+  url.searchParams.set('_fields', PRODUCT_FIELDS);
+
+  const res = await fetchFromWP(url.toString());
+  if (!res.ok) {
+    throw new Error(`WP product slug fetch failed: ${res.status} ${res.statusText}`);
+  }
+  const items = (await res.json()) as WooProduct[];
+  const mapped = items[0] ? mapProduct(items[0]) : null;
+  return mapped && mapped.image ? mapped : null;
+};
 
+// Les slugs inconnus sont aussi mis en cache ; la création du produit purge l'entrée.
+export const getProductBySlug = async (slug: string): Promise<ProductCard | null> => {
+  if (!baseUrl) return findSnapshotProduct(slug);
   try {
-    const res = await fetchFromWP(url.toString());
-    if (!res.ok) {
-      console.warn('WP product slug fetch failed', res.status, res.statusText);
-      return null;
-    }
-    const items = (await res.json()) as Array<Record<string, any>>;
-    const item = items[0];
-    const mapped = item ? mapProduct(item) : null;
-    return mapped && mapped.image ? mapped : null;
+    return await cached(`slug:${slug}`, () => loadProductBySlug(slug), {
+      tags: product => [CACHE_TAGS.slug(slug), ...(product ? [CACHE_TAGS.product(product.id)] : [])],
+    });
   } catch (error) {
-    console.warn('WP product slug fetch error', error);
-    return null;
+    console.warn('WP product slug fetch error, serving catalog snapshot', error);
+    return findSnapshotProduct(slug);
   }
 };
+
+type ProductMetaEntry = { productId: number; value: unknown };
+
+const loadProductMetaEntries = async (key: string) => {
+  const entries: ProductMetaEntry[] = [];
+  await fetchProductPages({ _fields: 'id,meta_data' }, Infinity, items => {
+    for (const item of items) {
+      const entry = item.meta_data?.find(candidate => candidate?.key === key);
+      if (entry) entries.push({ productId: item.id, value: entry.value });
+    }
+    return items.length;
+  });
+  return entries;
+};
+
+// Parcours de tout le catalogue, donc mis en cache : purgé par setProductMeta et, comme les listes
+// filtrées, par toute modification de produit signalée par WooCommerce.
+export const getProductMetaEntries = async (key: string): Promise<ProductMetaEntry[]> => {
+  if (!baseUrl) return [];
+  return cached(`meta:${key}`, () => loadProductMetaEntries(key), {
+    tags: entries => [
+      CACHE_TAGS.meta(key),
+      CACHE_TAGS.lists,
+      CACHE_TAGS.filteredLists,
+      ...entries.map(entry => CACHE_TAGS.product(entry.productId)),
+    ],
+  });
+};
+
+export const getProductMeta = async (productId: number, key: string) => {
+  if (!baseUrl) return undefined;
+  const url = new URL(`${baseUrl}/wc/v3/products/${productId}`);
+  url.searchParams.set('_fields', 'id,meta_data');
+  const res = await fetchFromWP(url.toString());
+  if (!res.ok) {
+    throw new Error(`WP product meta fetch failed: ${res.status} ${res.statusText}`);
+  }
+  const item = (await res.json()) as WooProduct;
+  return item.meta_data?.find(candidate => candidate?.key === key)?.value;
+};
+
+export const setProductMeta = async (productId: number, key: string, value: unknown) => {
+  const res = await fetchFromWP(`/wc/v3/products/${productId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ meta_data: [{ key, value }] }),
+  });
+  if (!res.ok) {
+    throw new Error(`WP product meta update failed: ${res.status} ${res.statusText}`);
+  }
+  // L'écriture a réussi : une purge manquée ne doit pas la faire passer pour un échec.
+  await purgeCacheTags([CACHE_TAGS.meta(key)]).catch(error =>
+    console.warn('Catalog cache purge failed', key, error)
+  );
+};
+
+// Copie traduite lue sur les produits WPML / Polylang liés, par lots de 100 (paramètre include).
+const loadTranslatedCopies = async (ids: number[], lang: ContentLang) => {
+  const copies: Record<string, ArtworkTranslations[ContentLang]> = {};
+  for (let start = 0; start < ids.length; start += MAX_PER_PAGE) {
+    const batch = ids.slice(start, start + MAX_PER_PAGE);
+    await fetchProductPages(
+      { include: batch.join(','), lang, _fields: PRODUCT_FIELDS },
+      batch.length,
+      items => {
+        for (const item of items) {
+          const mapped = mapProduct(item);
+          if (!mapped) continue;
+          copies[item.id] = {
+            title: mapped.title,
+            ...(mapped.description ? { description: mapped.description } : {}),
+            ...(mapped.medium ? { medium: mapped.medium } : {}),
+          };
+        }
+        return items.length;
+      }
+    );
+  }
+  return copies;
+};
+
+const fetchTranslatedCopies = (ids: number[], lang: ContentLang) => {
+  const sorted = [...new Set(ids)].sort((a, b) => a - b);
+  return cached(`translations:${lang}:${sorted.join(',')}`, () => loadTranslatedCopies(sorted, lang), {
+    tags: () => sorted.map(CACHE_TAGS.product),
+  });
+};
+
+// Les méta _mlag_*_<lang> priment sur la traduction WPML / Polylang, qui prime sur l'espagnol.
+export const localizeProducts = async <T extends Omit<ProductCard, 'id' | 'slug' | 'link'>>(
+  items: T[],
+  lang: ContentLang
+) => {
+  if (lang === SOURCE_LANG) return items.map(item => localizeArtwork(item, lang));
+
+  const linkedIds = items
+    .map(item => item.translationIds?.[lang])
+    .filter((id): id is number => typeof id === 'number');
+  let copies: Record<string, ArtworkTranslations[ContentLang]> = {};
+  if (baseUrl && linkedIds.length > 0) {
+    try {
+      copies = await fetchTranslatedCopies(linkedIds, lang);
+    } catch (error) {
+      console.warn('WP translations fetch error', error);
+    }
+  }
+
+  return items.map(item => {
+    const linkedId = item.translationIds?.[lang];
+    const linked = linkedId ? copies[linkedId] : null;
+    return localizeArtwork(
+      {
+        ...item,
+        translations: { ...item.translations, [lang]: { ...linked, ...item.translations?.[lang] } },
+      },
+      lang
+    );
+  });
+};
+
+export const localizeProduct = async <T extends Omit<ProductCard, 'id' | 'slug' | 'link'>>(
+  item: T,
+  lang: ContentLang
+) => (await localizeProducts([item], lang))[0];
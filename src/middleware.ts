@@ -0,0 +1,13 @@
+import { defineMiddleware } from 'astro:middleware';
+import { readStaffSession } from './lib/coaAuth';
+import { readCurrencyPreference } from './lib/currency';
+
+export const onRequest = defineMiddleware(async (context, next) => {
+  context.locals.staff = context.isPrerendered
+    ? null
+    : await readStaffSession(context.request, context.cookies);
+  context.locals.currency = context.isPrerendered
+    ? null
+    : readCurrencyPreference(context.url, context.cookies);
+  return next();
+});
@@ -0,0 +1,23 @@
+import { queryAuditEvents, type AuditEventType } from '../../lib/auditLog';
+import { withStaffSession } from '../../lib/coaAuth';
+import { json } from '../../lib/http';
+
+export const prerender = false;
+
+export const GET = withStaffSession(async ({ url }) => {
+  const params = url.searchParams;
+  try {
+    const events = await queryAuditEvents({
+      type: (params.get('type') as AuditEventType | null) || null,
+      actor: params.get('actor'),
+      subject: params.get('subject'),
+      since: params.get('since'),
+      until: params.get('until'),
+      limit: Number(params.get('limit')) || undefined,
+    });
+    return json({ ok: true, events });
+  } catch (error) {
+    console.warn('Audit log read failed', error);
+    return json({ ok: false, error: 'Audit log unavailable' }, 500);
+  }
+});
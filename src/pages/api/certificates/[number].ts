@@ -0,0 +1,18 @@
+import { withStaffSession } from '../../../lib/coaAuth';
+import { getCertificate } from '../../../lib/certificates';
+import { json } from '../../../lib/http';
+
+export const prerender = false;
+
+export const GET = withStaffSession(async ({ params }) => {
+  try {
+    const certificate = await getCertificate(params.number ?? '');
+    if (!certificate) {
+      return json({ ok: false, error: 'Certificate not found' }, 404);
+    }
+    return json({ ok: true, certificate });
+  } catch (error) {
+    console.warn('COA certificate store error', error);
+    return json({ ok: false, error: 'Certificate store unavailable' }, 500);
+  }
+}, 'issue-certificates');
@@ -0,0 +1,40 @@
+import { Buffer } from 'node:buffer';
+import { renderCertificatePdf, loadCertificateLogo } from '../../../../lib/certificatePdf';
+import { withStaffSession } from '../../../../lib/coaAuth';
+import { getSiteOrigin } from '../../../../lib/env';
+import { getCertificate, getCertificateVerifyPath } from '../../../../lib/certificates';
+import { json } from '../../../../lib/http';
+
+export const prerender = false;
+
+export const GET = withStaffSession(async ({ params, site, url }) => {
+  const lang = url.searchParams.get('lang') === 'en' ? 'en' : 'es';
+
+  try {
+    const certificate = await getCertificate(params.number ?? '');
+    if (!certificate) {
+      return json({ ok: false, error: 'Certificate not found' }, 404);
+    }
+    if (certificate.status === 'void') {
+      return json({ ok: false, error: 'Certificate has been voided' }, 410);
+    }
+
+    const verifyUrl = new URL(getCertificateVerifyPath(certificate.number, lang), site ?? url).href;
+    const pdf = await renderCertificatePdf(certificate, {
+      lang,
+      verifyUrl,
+      logoPng: await loadCertificateLogo(getSiteOrigin(site)),
+    });
+    return new Response(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${certificate.number}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.warn('COA certificate PDF error', error);
+    return json({ ok: false, error: 'Certificate PDF unavailable' }, 500);
+  }
+}, 'issue-certificates');
@@ -0,0 +1,29 @@
+import { recordAuditEvent } from '../../../../lib/auditLog';
+import { withStaffSession } from '../../../../lib/coaAuth';
+import { CertificateError, voidCertificate } from '../../../../lib/certificates';
+import { json, readJsonBody } from '../../../../lib/http';
+import { getClientIp } from '../../../../lib/rateLimit';
+
+export const prerender = false;
+
+export const POST = withStaffSession(async ({ request, params, clientAddress }, session) => {
+  const body = await readJsonBody<{ reason?: string }>(request);
+
+  try {
+    const certificate = await voidCertificate(params.number ?? '', body?.reason);
+    await recordAuditEvent({
+      type: 'certificate.voided',
+      actor: session.user,
+      ip: getClientIp(request, () => clientAddress),
+      subject: certificate.number,
+      details: { reason: certificate.voidReason },
+    });
+    return json({ ok: true, certificate });
+  } catch (error) {
+    if (error instanceof CertificateError) {
+      return json({ ok: false, error: error.message }, error.status);
+    }
+    console.warn('COA certificate store error', error);
+    return json({ ok: false, error: 'Certificate store unavailable' }, 500);
+  }
+}, 'issue-certificates');
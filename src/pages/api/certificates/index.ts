@@ -0,0 +1,89 @@
+import { recordAuditEvent } from '../../../lib/auditLog';
+import { withStaffSession } from '../../../lib/coaAuth';
+import {
+  CertificateError,
+  getCertificateVerifyPath,
+  issueArtworkCertificate,
+  listCertificates,
+  type CertificateStatus,
+} from '../../../lib/certificates';
+import { json, readJsonBody } from '../../../lib/http';
+import { renderQrSvg } from '../../../lib/qr';
+import { getClientIp } from '../../../lib/rateLimit';
+
+export const prerender = false;
+
+type IssueBody = {
+  productId?: number | null;
+  productSlug?: string;
+  title?: string;
+  medium?: string | null;
+  dimensions?: string | null;
+  client?: string;
+  issueDate?: string;
+  lang?: 'es' | 'en';
+};
+
+export const GET = withStaffSession(async ({ url }) => {
+  const status = url.searchParams.get('status');
+  try {
+    const certificates = await listCertificates({
+      productSlug: url.searchParams.get('slug'),
+      status: status === 'issued' || status === 'void' ? (status as CertificateStatus) : null,
+    });
+    return json({ ok: true, certificates });
+  } catch (error) {
+    return handleError(error);
+  }
+}, 'issue-certificates');
+
+export const POST = withStaffSession(async ({ request, site, url, clientAddress }, session) => {
+  const body = await readJsonBody<IssueBody>(request);
+  if (!body?.productSlug) {
+    return json({ ok: false, error: 'Invalid request' }, 400);
+  }
+
+  const lang = body.lang === 'en' ? 'en' : 'es';
+
+  try {
+    const certificate = await issueArtworkCertificate({
+      productId: body.productId ?? null,
+      productSlug: body.productSlug,
+      title: body.title,
+      medium: body.medium,
+      dimensions: body.dimensions,
+      client: body.client ?? '',
+      issueDate: body.issueDate,
+      issuedBy: session.user,
+      lang,
+    });
+    await recordAuditEvent({
+      type: 'certificate.issued',
+      actor: session.user,
+      ip: getClientIp(request, () => clientAddress),
+      subject: certificate.number,
+      details: {
+        productId: certificate.productId,
+        productSlug: certificate.productSlug,
+        client: certificate.client,
+        issueDate: certificate.issueDate,
+      },
+    });
+    const verifyUrl = new URL(
+      getCertificateVerifyPath(certificate.number, lang),
+      site ?? url
+    ).href;
+    const qrSvg = await renderQrSvg(verifyUrl);
+    return json({ ok: true, certificate, verifyUrl, qrSvg }, 201);
+  } catch (error) {
+    return handleError(error);
+  }
+}, 'issue-certificates');
+
+const handleError = (error: unknown) => {
+  if (error instanceof CertificateError) {
+    return json({ ok: false, error: error.message }, error.status);
+  }
+  console.warn('COA certificate store error', error);
+  return json({ ok: false, error: 'Certificate store unavailable' }, 500);
+};
@@ -0,0 +1,7 @@
+import type { APIRoute } from 'astro';
+import { handlePaymentCallback } from '../../../lib/checkout';
+
+export const prerender = false;
+
+// Webhook du prestataire de paiement (Stripe : checkout.session.*).
+export const POST: APIRoute = context => handlePaymentCallback(context);
@@ -0,0 +1,85 @@
+import type { APIRoute } from 'astro';
+import { getCheckoutOrder, handlePaymentCallback } from '../../../lib/checkout';
+import {
+  FAKE_SIGNATURE_HEADER,
+  getFakeProviderSecret,
+  getPaymentProvider,
+  signFakePaymentEvent,
+} from '../../../lib/paymentProviders';
+import { getArtworkRoute } from '../../../lib/siteRoutes';
+
+export const prerender = false;
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+const isFakeProvider = () => {
+  try {
+    return getPaymentProvider()?.name === 'fake';
+  } catch {
+    return false;
+  }
+};
+
+// Page de paiement simulée du prestataire local : aucun argent n'est débité.
+export const GET: APIRoute = async ({ url }) => {
+  if (!isFakeProvider()) return new Response('Not found', { status: 404 });
+  const order = await getCheckoutOrder(url.searchParams.get('order') ?? '');
+  if (!order || order.providerSessionId !== url.searchParams.get('session')) {
+    return new Response('Unknown checkout session', { status: 404 });
+  }
+
+  const amount = `${(order.amount / 100).toFixed(2)} ${order.currency.toUpperCase()}`;
+  const field = (name: string, value: string) =>
+    `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`;
+  const html = `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="robots" content="noindex"><title>Fake payment</title></head>
+<body style="font-family:system-ui;max-width:32rem;margin:4rem auto;padding:0 1rem">
+<h1>Fake payment provider</h1>
+<p>${escapeHtml(order.description)}<br><strong>${escapeHtml(amount)}</strong> (${escapeHtml(order.mode)})</p>
+<form method="POST">
+${field('order', order.id)}${field('session', order.providerSessionId ?? '')}
+<button name="outcome" value="paid">Pay</button>
+<button name="outcome" value="failed">Decline</button>
+<button name="outcome" value="cancel">Cancel</button>
+</form>
+</body>
+</html>`;
+  return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+};
+
+// Envoie au webhook le même évènement signé qu'enverrait un vrai prestataire.
+export const POST: APIRoute = async ({ request }) => {
+  if (!isFakeProvider()) return new Response('Not found', { status: 404 });
+  const form = await request.formData().catch(() => null);
+  const order = await getCheckoutOrder(String(form?.get('order') ?? ''));
+  if (!order || order.providerSessionId !== form?.get('session')) {
+    return new Response('Unknown checkout session', { status: 404 });
+  }
+
+  const outcome = String(form.get('outcome'));
+  const type = outcome === 'paid' ? 'paid' : outcome === 'failed' ? 'failed' : 'expired';
+  const body = JSON.stringify({
+    type,
+    orderId: order.id,
+    sessionId: order.providerSessionId,
+    customerEmail: order.customerEmail ?? 'buyer@example.com',
+    customerName: 'Fake Buyer',
+  });
+  const callback = new Request(new URL('/api/checkout/callback', request.url), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      [FAKE_SIGNATURE_HEADER]: signFakePaymentEvent(body, getFakeProviderSecret()),
+    },
+    body,
+  });
+  const result = await handlePaymentCallback({ request: callback });
+  if (!result.ok) return result;
+
+  const back = new URL(getArtworkRoute(order.productSlug)[order.lang], request.url);
+  back.searchParams.set('checkout', type === 'paid' ? 'success' : 'cancelled');
+  back.searchParams.set('order', order.id);
+  return new Response(null, { status: 303, headers: { Location: `${back.pathname}${back.search}` } });
+};
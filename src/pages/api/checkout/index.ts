@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { handleCheckoutRequest } from '../../../lib/checkout';
+
+export const prerender = false;
+
+export const POST: APIRoute = context => handleCheckoutRequest(context);
@@ -1,48 +1,90 @@
 import type { APIRoute } from 'astro';
-import { createHmac, randomBytes } from 'node:crypto';
-import { getEnvValue } from '../../lib/env';
+import {
+  createCoaToken,
+  getRevokedSessionStore,
+  isCoaAuthConfigured,
+  setSessionCookie,
+} from '../../lib/coaAuth';
+import { recordAuditEvent } from '../../lib/auditLog';
+import { json, readJsonBody } from '../../lib/http';
+import { getClientIp, getLoginLimiter } from '../../lib/rateLimit';
+import { authenticateStaff, getStaffUsers } from '../../lib/staffUsers';
 
 export const prerender = false;
 
-export const POST: APIRoute = async ({ request }) => {
-  let body: { user?: string; password?: string };
-  try {
-    body = await request.json();
-  } catch {
-    return json({ ok: false, error: 'Invalid request' }, 400);
-  }
+const messages = {
+  es: {
+    invalidRequest: 'Solicitud no válida',
+    notConfigured: 'El acceso al certificado no está configurado',
+    invalidCredentials: 'Usuario o contraseña incorrectos',
+    locked: 'Demasiados intentos. Vuelve a intentarlo en {minutes} min.',
+  },
+  en: {
+    invalidRequest: 'Invalid request',
+    notConfigured: 'Certificate access is not configured',
+    invalidCredentials: 'Incorrect username or password',
+    locked: 'Too many attempts. Try again in {minutes} min.',
+  },
+};
 
-  const expectedUser = getEnvValue(['COA_USER']);
-  const expectedPassword = getEnvValue(['COA_PASSWORD']);
+const pickLang = (request: Request, requested?: string) => {
+  if (requested === 'en' || requested === 'es') return requested;
+  return /^en\b/i.test(request.headers.get('Accept-Language') ?? '') ? 'en' : 'es';
+};
+
+export const POST: APIRoute = async context => {
+  const body = await readJsonBody<{ user?: string; password?: string; lang?: string }>(
+    context.request
+  );
+  const t = messages[pickLang(context.request, body?.lang)];
+  if (!body) {
+    return json({ ok: false, error: t.invalidRequest }, 400);
+  }
 
-  if (!expectedUser || !expectedPassword) {
-    return json({ ok: false, error: 'COA auth not configured' }, 503);
+  if (!isCoaAuthConfigured() || getStaffUsers().length === 0) {
+    return json({ ok: false, error: t.notConfigured }, 503);
+  }
+  try {
+    // Sans révocations partagées, une session ouverte ici ne pourrait pas être fermée partout.
+    getRevokedSessionStore();
+  } catch (error) {
+    console.error('COA session store unavailable', error);
+    return json({ ok: false, error: t.notConfigured }, 503);
   }
 
   const { user = '', password = '' } = body;
+  const ip = getClientIp(context.request, () => context.clientAddress);
+  const username = user.trim().toLowerCase();
+  const limiter = getLoginLimiter();
+  const limitIds = { ip, user: username };
+
+  const limit = await limiter.check(limitIds);
+  if (!limit.allowed) {
+    await recordAuditEvent({ type: 'login.locked', actor: username || null, ip });
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    return json(
+      { ok: false, error: t.locked.replace('{minutes}', String(Math.ceil(retryAfter / 60))) },
+      429,
+      { 'Retry-After': String(retryAfter) }
+    );
+  }
 
-  const userMatch = user.trim() === expectedUser.trim();
-  const passMatch = password === expectedPassword;
+  const staffUser = authenticateStaff(user, password);
 
-  if (!userMatch || !passMatch) {
+  if (!staffUser) {
+    await limiter.recordFailure(limitIds);
+    await recordAuditEvent({ type: 'login.failure', actor: username || null, ip });
     // Délai artificiel pour éviter le brute-force
     await new Promise(r => setTimeout(r, 600));
-    return json({ ok: false, error: 'Identifiants incorrects' }, 401);
+    return json({ ok: false, error: t.invalidCredentials }, 401);
   }
 
-  // Génère un token signé HMAC valide 8h
-  const secret = getEnvValue(['COA_SECRET']) || randomBytes(16).toString('hex');
-  const expires = Date.now() + 8 * 60 * 60 * 1000;
-  const nonce = randomBytes(8).toString('hex');
-  const payload = `${expires}.${nonce}`;
-  const sig = createHmac('sha256', secret).update(payload).digest('hex');
-  const token = `${payload}.${sig}`;
+  await limiter.recordSuccess(limitIds, ['user']);
+  await recordAuditEvent({ type: 'login.success', actor: staffUser.username, ip });
 
-  return json({ ok: true, token, expires });
-};
+  // Session signée HMAC valide 8h, transmise uniquement en cookie HttpOnly
+  const { token, session } = createCoaToken(staffUser.username, staffUser.roles);
+  setSessionCookie(context, token, session);
 
-const json = (data: object, status = 200) =>
-  new Response(JSON.stringify(data), {
-    status,
-    headers: { 'Content-Type': 'application/json' },
-  });
+  return json({ ok: true, user: session.user, roles: session.roles, expires: session.expires });
+};
@@ -0,0 +1,27 @@
+import type { APIRoute } from 'astro';
+import { clearSessionCookie, revokeCoaSession } from '../../../lib/coaAuth';
+import { recordAuditEvent } from '../../../lib/auditLog';
+import { json } from '../../../lib/http';
+import { getClientIp } from '../../../lib/rateLimit';
+
+export const prerender = false;
+
+export const POST: APIRoute = async context => {
+  if (context.locals.staff) {
+    try {
+      await revokeCoaSession(context.locals.staff);
+    } catch (error) {
+      // Le cookie est effacé quand même, mais le jeton reste valable ailleurs jusqu'à son expiration.
+      console.error('COA session revocation failed', error);
+      clearSessionCookie(context);
+      return json({ ok: false, error: 'Logout could not be recorded' }, 503);
+    }
+    await recordAuditEvent({
+      type: 'logout',
+      actor: context.locals.staff.user,
+      ip: getClientIp(context.request, () => context.clientAddress),
+    });
+  }
+  clearSessionCookie(context);
+  return json({ ok: true });
+};
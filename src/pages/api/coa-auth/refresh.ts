@@ -0,0 +1,24 @@
+import {
+  clearSessionCookie,
+  createCoaToken,
+  revokeCoaSession,
+  setSessionCookie,
+  withStaffSession,
+} from '../../../lib/coaAuth';
+import { json } from '../../../lib/http';
+import { getStaffUser } from '../../../lib/staffUsers';
+
+export const prerender = false;
+
+export const POST = withStaffSession(async (context, current) => {
+  await revokeCoaSession(current);
+  // Les rôles sont relus à chaque renouvellement : un compte retiré perd l'accès.
+  const user = getStaffUser(current.user);
+  if (!user) {
+    clearSessionCookie(context);
+    return json({ ok: false, error: 'Unauthorized' }, 401);
+  }
+  const { token, session } = createCoaToken(user.username, user.roles);
+  setSessionCookie(context, token, session);
+  return json({ ok: true, user: session.user, roles: session.roles, expires: session.expires });
+});
@@ -0,0 +1,8 @@
+import { withStaffSession } from '../../../lib/coaAuth';
+import { json } from '../../../lib/http';
+
+export const prerender = false;
+
+export const GET = withStaffSession((_context, session) =>
+  json({ ok: true, user: session.user, roles: session.roles, expires: session.expires })
+);
@@ -0,0 +1,7 @@
+import type { APIRoute } from 'astro';
+import { handleLeadRequest } from '../../lib/leads';
+
+export const prerender = false;
+
+// Formulaire de contact et demande sur une œuvre précise (productSlug).
+export const POST: APIRoute = context => handleLeadRequest(context, ['contact', 'inquiry']);
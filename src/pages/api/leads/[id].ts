@@ -0,0 +1,60 @@
+import { recordAuditEvent } from '../../../lib/auditLog';
+import { hasStaffRole, withStaffSession } from '../../../lib/coaAuth';
+import { json, readJsonBody } from '../../../lib/http';
+import {
+  canIssueLeadCertificate,
+  getLead,
+  LeadError,
+  parseLeadStatus,
+  updateLeadStatus,
+} from '../../../lib/leads';
+import { getClientIp } from '../../../lib/rateLimit';
+
+export const prerender = false;
+
+export const GET = withStaffSession(async ({ params }) => {
+  try {
+    const lead = await getLead(params.id ?? '');
+    if (!lead) {
+      return json({ ok: false, error: 'Lead not found' }, 404);
+    }
+    return json({ ok: true, lead });
+  } catch (error) {
+    return handleError(error);
+  }
+}, 'view-leads');
+
+export const PATCH = withStaffSession(async ({ request, params, clientAddress }, session) => {
+  const body = await readJsonBody<{ status?: string }>(request);
+  const status = parseLeadStatus(body?.status);
+  if (!status) {
+    return json({ ok: false, error: 'Invalid status' }, 400);
+  }
+
+  try {
+    const { lead, previous } = await updateLeadStatus(params.id ?? '', status);
+    if (previous !== status) {
+      await recordAuditEvent({
+        type: 'lead.status-changed',
+        actor: session.user,
+        ip: getClientIp(request, () => clientAddress),
+        subject: lead.id,
+        details: { from: previous, to: status, productSlug: lead.productSlug },
+      });
+    }
+    // Une vente propose d'émettre le certificat, si le compte en a le droit.
+    const certificateOffer =
+      canIssueLeadCertificate(lead) && hasStaffRole(session, 'issue-certificates');
+    return json({ ok: true, lead, certificateOffer });
+  } catch (error) {
+    return handleError(error);
+  }
+}, 'view-leads');
+
+const handleError = (error: unknown) => {
+  if (error instanceof LeadError) {
+    return json({ ok: false, error: error.message }, error.status);
+  }
+  console.warn('Lead store error', error);
+  return json({ ok: false, error: 'Lead store unavailable' }, 500);
+};
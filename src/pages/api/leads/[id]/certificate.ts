@@ -0,0 +1,95 @@
+import { recordAuditEvent } from '../../../../lib/auditLog';
+import { hasStaffRole, withStaffSession } from '../../../../lib/coaAuth';
+import {
+  CertificateError,
+  findLeadCertificate,
+  getCertificateVerifyPath,
+  issueArtworkCertificate,
+} from '../../../../lib/certificates';
+import { json, readJsonBody } from '../../../../lib/http';
+import {
+  attachLeadCertificate,
+  claimLeadCertificate,
+  getLead,
+  LeadError,
+  releaseLeadCertificateClaim,
+} from '../../../../lib/leads';
+import { getClientIp } from '../../../../lib/rateLimit';
+
+export const prerender = false;
+
+// Certificat émis pour le client et l'œuvre d'une vente, puis rattaché à la demande.
+export const POST = withStaffSession(async ({ request, params, site, url, clientAddress }, session) => {
+  if (!hasStaffRole(session, 'issue-certificates')) {
+    return json({ ok: false, error: 'Forbidden' }, 403);
+  }
+  const body = await readJsonBody<{ client?: string; issueDate?: string; lang?: 'es' | 'en' }>(
+    request
+  );
+
+  try {
+    const lead = await getLead(params.id ?? '');
+    if (!lead) {
+      return json({ ok: false, error: 'Lead not found' }, 404);
+    }
+    // Un double clic ou deux membres de l'équipe : le second reçoit 409 au lieu d'un second certificat.
+    const claimed = await claimLeadCertificate(lead.id);
+
+    // Rien n'a été émis : la vente peut être reprise tout de suite.
+    const releaseClaim = async (error: unknown): Promise<never> => {
+      await releaseLeadCertificateClaim(claimed).catch(releaseError =>
+        console.warn('Lead certificate claim release failed', lead.id, releaseError)
+      );
+      throw error;
+    };
+
+    const lang = body?.lang ?? lead.lang;
+    // Un essai précédent a pu émettre le certificat sans le rattacher à la demande : on rattache
+    // celui-là au lieu d'en émettre un second.
+    const existing = await findLeadCertificate(lead.id).catch(releaseClaim);
+    const certificate =
+      existing ??
+      (await issueArtworkCertificate({
+        productId: lead.productId,
+        productSlug: lead.productSlug ?? '',
+        title: lead.productTitle,
+        client: body?.client?.trim() || lead.name || '',
+        issueDate: body?.issueDate,
+        issuedBy: session.user,
+        lang,
+        leadId: lead.id,
+      }).catch(releaseClaim));
+    if (!existing) {
+      // Journalisé avant le rattachement : l'émission reste tracée même si la demande n'est pas mise à jour.
+      await recordAuditEvent({
+        type: 'certificate.issued',
+        actor: session.user,
+        ip: getClientIp(request, () => clientAddress),
+        subject: certificate.number,
+        details: {
+          productId: certificate.productId,
+          productSlug: certificate.productSlug,
+          client: certificate.client,
+          issueDate: certificate.issueDate,
+          leadId: lead.id,
+        },
+      });
+    }
+    const updated = await attachLeadCertificate(lead.id, certificate.number).catch(error => {
+      console.error(
+        'Lead certificate issued but not attached; a retry will attach it',
+        lead.id,
+        certificate.number
+      );
+      throw error;
+    });
+    const verifyUrl = new URL(getCertificateVerifyPath(certificate.number, lang), site ?? url).href;
+    return json({ ok: true, lead: updated, certificate, verifyUrl }, existing ? 200 : 201);
+  } catch (error) {
+    if (error instanceof CertificateError || error instanceof LeadError) {
+      return json({ ok: false, error: error.message }, error.status);
+    }
+    console.warn('Lead certificate error', error);
+    return json({ ok: false, error: 'Certificate store unavailable' }, 500);
+  }
+}, 'view-leads');
@@ -0,0 +1,28 @@
+import { recordAuditEvent } from '../../../../lib/auditLog';
+import { withStaffSession } from '../../../../lib/coaAuth';
+import { json, readJsonBody } from '../../../../lib/http';
+import { addLeadNote, LeadError } from '../../../../lib/leads';
+import { getClientIp } from '../../../../lib/rateLimit';
+
+export const prerender = false;
+
+export const POST = withStaffSession(async ({ request, params, clientAddress }, session) => {
+  const body = await readJsonBody<{ text?: string }>(request);
+
+  try {
+    const lead = await addLeadNote(params.id ?? '', body?.text ?? '', session.user);
+    await recordAuditEvent({
+      type: 'lead.note-added',
+      actor: session.user,
+      ip: getClientIp(request, () => clientAddress),
+      subject: lead.id,
+    });
+    return json({ ok: true, lead }, 201);
+  } catch (error) {
+    if (error instanceof LeadError) {
+      return json({ ok: false, error: error.message }, error.status);
+    }
+    console.warn('Lead store error', error);
+    return json({ ok: false, error: 'Lead store unavailable' }, 500);
+  }
+}, 'view-leads');
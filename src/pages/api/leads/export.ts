@@ -0,0 +1,29 @@
+import { withStaffSession } from '../../../lib/coaAuth';
+import { json } from '../../../lib/http';
+import { LEAD_KINDS, leadsToCsv, listLeads, parseLeadStatus } from '../../../lib/leads';
+
+export const prerender = false;
+
+// Mêmes filtres que la liste : l'export reprend ce que la galerie a sous les yeux.
+export const GET = withStaffSession(async ({ url }) => {
+  const params = url.searchParams;
+  try {
+    const leads = await listLeads({
+      status: parseLeadStatus(params.get('status')),
+      kind: LEAD_KINDS.find(kind => kind === params.get('kind')) ?? null,
+      q: params.get('q'),
+    });
+    const date = new Date().toISOString().slice(0, 10);
+    // BOM UTF-8 : Excel lit sinon les accents en Latin-1.
+    return new Response(`\uFEFF${leadsToCsv(leads)}`, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="leads-${date}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.warn('Lead store read failed', error);
+    return json({ ok: false, error: 'Lead store unavailable' }, 500);
+  }
+}, 'view-leads');
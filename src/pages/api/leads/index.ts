@@ -0,0 +1,20 @@
+import { withStaffSession } from '../../../lib/coaAuth';
+import { json } from '../../../lib/http';
+import { LEAD_KINDS, listLeads, parseLeadStatus } from '../../../lib/leads';
+
+export const prerender = false;
+
+export const GET = withStaffSession(async ({ url }) => {
+  const params = url.searchParams;
+  try {
+    const leads = await listLeads({
+      status: parseLeadStatus(params.get('status')),
+      kind: LEAD_KINDS.find(kind => kind === params.get('kind')) ?? null,
+      q: params.get('q'),
+    });
+    return json({ ok: true, leads });
+  } catch (error) {
+    console.warn('Lead store read failed', error);
+    return json({ ok: false, error: 'Lead store unavailable' }, 500);
+  }
+}, 'view-leads');
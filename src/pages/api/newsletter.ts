@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { handleLeadRequest } from '../../lib/leads';
+
+export const prerender = false;
+
+export const POST: APIRoute = context => handleLeadRequest(context, ['newsletter']);
@@ -0,0 +1,39 @@
+import type { APIRoute } from 'astro';
+import { parseContentLang } from '../../lib/artworkTranslations';
+import { json } from '../../lib/http';
+import {
+  parseQuoteDestination,
+  presentQuote,
+  QuoteError,
+  quoteProduct,
+  translateQuoteError,
+} from '../../lib/quote';
+import { getProductBySlug } from '../../lib/wp';
+
+export const prerender = false;
+
+// Devis taxes + emballage + transport : GET /api/quote?productSlug=...&zip=75201&country=US
+export const GET: APIRoute = async ({ url }) => {
+  const params = url.searchParams;
+  const lang = parseContentLang(params.get('lang')) ?? 'es';
+  const productSlug = params.get('productSlug')?.trim();
+  if (!productSlug) return json({ ok: false, error: translateQuoteError(lang, 'invalidRequest') }, 400);
+
+  try {
+    const destination = parseQuoteDestination({
+      country: params.get('country'),
+      state: params.get('state'),
+      zip: params.get('zip'),
+    });
+    const product = await getProductBySlug(productSlug);
+    if (!product) return json({ ok: false, error: translateQuoteError(lang, 'invalidRequest') }, 404);
+    const quote = quoteProduct(product, destination);
+    return json({ ok: true, quote, ...presentQuote(quote, lang) });
+  } catch (error) {
+    if (error instanceof QuoteError) {
+      return json({ ok: false, error: translateQuoteError(lang, error.message) }, error.status);
+    }
+    console.warn('Quote failed', error);
+    return json({ ok: false, error: translateQuoteError(lang, 'invalidRequest') }, 500);
+  }
+};
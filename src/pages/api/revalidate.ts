@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import { purgeCacheTags } from '../../lib/catalogCache';
+import { json } from '../../lib/http';
+import {
+  getWebhookPurgeTags,
+  getWooWebhookSecret,
+  verifyWooWebhookSignature,
+} from '../../lib/wooWebhooks';
+
+export const prerender = false;
+
+export const POST: APIRoute = async ({ request }) => {
+  const secret = getWooWebhookSecret();
+  if (!secret) {
+    return json({ ok: false, error: 'Webhook secret is not configured' }, 503);
+  }
+
+  const rawBody = await request.text();
+  const topic = request.headers.get('X-WC-Webhook-Topic');
+
+  // Ping envoyé par WooCommerce à l'enregistrement du webhook : non signé, sans effet.
+  if (!topic && /^webhook_id=\d+$/.test(rawBody.trim())) {
+    return json({ ok: true, ping: true });
+  }
+
+  if (!verifyWooWebhookSignature(rawBody, request.headers.get('X-WC-Webhook-Signature'), secret)) {
+    return json({ ok: false, error: 'Invalid signature' }, 401);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return json({ ok: false, error: 'Invalid request' }, 400);
+  }
+
+  const tags =
+    topic && payload && typeof payload === 'object' ? getWebhookPurgeTags(topic, payload) : null;
+  if (!tags) {
+    return json({ ok: true, purged: [] });
+  }
+
+  try {
+    const purged = await purgeCacheTags(tags);
+    return json({ ok: true, tags, purged });
+  } catch (error) {
+    console.error('Catalog cache purge failed', error);
+    return json({ ok: false, error: 'Purge failed' }, 500);
+  }
+};
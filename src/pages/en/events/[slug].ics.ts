@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { handleEventCalendarRequest } from '../../../lib/events';
+
+export const prerender = false;
+
+export const GET: APIRoute = context => handleEventCalendarRequest(context, 'en');
@@ -0,0 +1,6 @@
+import type { APIRoute } from 'astro';
+import { handleImageRequest } from '../../lib/imagePipeline';
+
+export const prerender = false;
+
+export const GET: APIRoute = context => handleImageRequest(context);
@@ -0,0 +1,62 @@
+import type { APIRoute } from 'astro';
+import { getCollectionImage, getCollections } from '../lib/collections';
+import { getEvents, isEventsEnabled } from '../lib/events';
+import { latestDate, renderSitemap, type SitemapRoute } from '../lib/sitemap';
+import { eventsRoute, getArtworkRoute, getCollectionRoute, getEventRoute, staticRoutes } from '../lib/siteRoutes';
+import { getAllProducts, type ProductCard } from '../lib/wp';
+
+export const prerender = false;
+
+const getImageEntries = (product: ProductCard) =>
+  (product.images?.length
+    ? product.images.map(image => image.full ?? image.src)
+    : [product.imageFull ?? product.image]
+  )
+    .filter((loc): loc is string => Boolean(loc))
+    .map(loc => ({ loc, title: product.title }));
+
+export const GET: APIRoute = async ({ site, url }) => {
+  const products = await getAllProducts();
+  const collections = await getCollections();
+  const events = await getEvents();
+  const catalogModifiedAt = latestDate(products.map(product => product.modifiedAt));
+
+  const routes: SitemapRoute[] = [
+    ...staticRoutes.map(route => ({
+      ...route,
+      lastmod: route.listsCatalog ? catalogModifiedAt : null,
+    })),
+    ...products
+      .filter(product => product.slug)
+      .map(product => ({
+        ...getArtworkRoute(product.slug),
+        lastmod: product.modifiedAt ?? null,
+        images: getImageEntries(product),
+      })),
+    ...collections.map(collection => {
+      const image = getCollectionImage(collection);
+      return {
+        ...getCollectionRoute(collection.slug),
+        lastmod: latestDate(collection.artworks.map(product => product.modifiedAt)),
+        images: image ? [{ loc: image, title: collection.name }] : [],
+      };
+    }),
+    ...(isEventsEnabled()
+      ? [
+          { ...eventsRoute, lastmod: latestDate(events.map(event => event.modifiedAt)) },
+          ...events.map(event => ({
+            ...getEventRoute(event.slug),
+            lastmod: event.modifiedAt,
+            images: event.image ? [{ loc: event.image, title: event.title }] : [],
+          })),
+        ]
+      : []),
+  ];
+
+  return new Response(renderSitemap(routes, site ?? new URL(url.origin)), {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=0, s-maxage=3600, stale-while-revalidate=86400',
+    },
+  });
+};
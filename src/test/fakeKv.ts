@@ -0,0 +1,23 @@
+import RedisMock from 'ioredis-mock';
+import type { KvClient, KvCommand } from '../lib/kv';
+
+let instance = 0;
+
+// Client KV des tests : commandes et scripts Lua exécutés par un Redis simulé en mémoire.
+// Chaque client a ses propres données ; plusieurs stores peuvent en partager un, comme des instances.
+export const createFakeKvClient = (): KvClient => {
+  const redis = new RedisMock({ port: 10_000 + (instance += 1) });
+  const run = ([name, ...args]: KvCommand) =>
+    (redis as unknown as Record<string, (...values: Array<string | number>) => Promise<unknown>>)[
+      String(name).toLowerCase()
+    ](...args);
+
+  return {
+    command: async <T>(...args: KvCommand) => (await run(args)) as T,
+    pipeline: async <T>(commands: KvCommand[]) => {
+      const results: T[] = [];
+      for (const command of commands) results.push((await run(command)) as T);
+      return results;
+    },
+  };
+};